@@ -1,5 +1,6 @@
 import { defineStore } from "pinia";
 import Cookies from "js-cookie";
+import { clearUserMessageCache } from "~/utils/messageCache";
 
 // Define user type
 interface User {
@@ -518,6 +519,11 @@ export const useAuthStore = defineStore("auth", () => {
 
   // Logout function
   function logout() {
+    // Cached conversations must not outlive the session on a shared browser
+    if (process.client && user.value?.id) {
+      clearUserMessageCache(user.value.id);
+    }
+
     // Simply clear user data and token without any health check
     user.value = null;
     token.value = null;
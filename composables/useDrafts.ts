@@ -0,0 +1,171 @@
+import { defineStore } from "pinia";
+import { ref, watch } from "vue";
+import type { ReplyReference } from "~/utils/replyHelper";
+import { useAuthStore } from "./useAuth";
+
+export type DraftConversationType = "private" | "group";
+
+// Metadata of a file that was picked but not sent yet
+// File objects cannot be persisted, so the user is asked to re-attach them
+export interface DraftAttachment {
+  name: string;
+  size: number;
+  type: string;
+}
+
+export interface MessageDraft {
+  text: string;
+  attachments: DraftAttachment[];
+  reply_to?: ReplyReference;
+  updated_at: string;
+}
+
+// Drafts are stored per user so a shared browser never leaks them
+const DRAFTS_STORAGE_PREFIX = "chat_drafts_";
+
+export const useDraftsStore = defineStore("drafts", () => {
+  // State, keyed by `${type}:${conversationId}`
+  const drafts = ref<Record<string, MessageDraft>>({});
+
+  const authStore = useAuthStore();
+
+  const getDraftKey = (type: DraftConversationType, conversationId: string) =>
+    `${type}:${conversationId}`;
+
+  const getStorageKey = () =>
+    authStore.user?.id ? `${DRAFTS_STORAGE_PREFIX}${authStore.user.id}` : null;
+
+  /**
+   * Load the current user's drafts from localStorage
+   */
+  function loadDrafts(): void {
+    if (!process.client) return;
+
+    const storageKey = getStorageKey();
+    if (!storageKey) {
+      drafts.value = {};
+      return;
+    }
+
+    try {
+      const stored = localStorage.getItem(storageKey);
+      drafts.value = stored ? JSON.parse(stored) : {};
+      console.log(
+        `[useDrafts] Loaded ${Object.keys(drafts.value).length} drafts`
+      );
+    } catch (err) {
+      console.error("[useDrafts] Error loading drafts:", err);
+      drafts.value = {};
+    }
+  }
+
+  function persistDrafts(): void {
+    if (!process.client) return;
+
+    const storageKey = getStorageKey();
+    if (!storageKey) return;
+
+    try {
+      if (Object.keys(drafts.value).length === 0) {
+        localStorage.removeItem(storageKey);
+      } else {
+        localStorage.setItem(storageKey, JSON.stringify(drafts.value));
+      }
+    } catch (err) {
+      console.error("[useDrafts] Error saving drafts:", err);
+    }
+  }
+
+  /**
+   * Get the draft of a conversation, if there is one
+   */
+  function getDraft(
+    type: DraftConversationType,
+    conversationId: string
+  ): MessageDraft | undefined {
+    return drafts.value[getDraftKey(type, conversationId)];
+  }
+
+  /**
+   * Save the composer state of a conversation
+   * Empty drafts (no text, reply or attachments) are removed instead
+   */
+  function saveDraft(
+    type: DraftConversationType,
+    conversationId: string,
+    draft: {
+      text: string;
+      attachments?: DraftAttachment[];
+      reply_to?: ReplyReference | null;
+    }
+  ): void {
+    if (!conversationId) return;
+
+    const attachments = draft.attachments || [];
+    if (!draft.text.trim() && !draft.reply_to && attachments.length === 0) {
+      clearDraft(type, conversationId);
+      return;
+    }
+
+    drafts.value = {
+      ...drafts.value,
+      [getDraftKey(type, conversationId)]: {
+        text: draft.text,
+        attachments,
+        reply_to: draft.reply_to || undefined,
+        updated_at: new Date().toISOString(),
+      },
+    };
+    persistDrafts();
+  }
+
+  /**
+   * Remove the draft of a conversation (e.g. after the message was sent)
+   */
+  function clearDraft(
+    type: DraftConversationType,
+    conversationId: string
+  ): void {
+    const key = getDraftKey(type, conversationId);
+    if (!drafts.value[key]) return;
+
+    const { [key]: _removed, ...rest } = drafts.value;
+    drafts.value = rest;
+    persistDrafts();
+  }
+
+  /**
+   * Get the text shown after "Draft:" in conversation lists
+   * Returns an empty string when there is nothing worth previewing
+   */
+  function getDraftPreview(
+    type: DraftConversationType,
+    conversationId: string
+  ): string {
+    const draft = getDraft(type, conversationId);
+    if (!draft) return "";
+
+    if (draft.text.trim()) return draft.text.trim();
+    if (draft.attachments.length > 0) {
+      return draft.attachments.length === 1
+        ? `📎 ${draft.attachments[0].name}`
+        : `📎 ${draft.attachments.length} files`;
+    }
+    return "";
+  }
+
+  // Reload whenever the signed-in user changes
+  watch(() => authStore.user?.id, loadDrafts, { immediate: true });
+
+  return {
+    // State
+    drafts,
+
+    // Actions
+    loadDrafts,
+    getDraft,
+    saveDraft,
+    clearDraft,
+    getDraftPreview,
+  };
+});
@@ -1,4 +1,5 @@
 import mitt from "mitt";
+import type { MessageRevision } from "~/utils/editHistoryHelper";
 
 export type EventTypes = {
   "unread-counts-updated": any[];
@@ -7,11 +8,19 @@ export type EventTypes = {
   "message-read": string[];
   "friend-status-changed": { userId: string; status: "online" | "offline" };
   "retry-failed-message": string;
+  "discard-failed-message": string;
+  "message-delivered": string[];
   "typing-status-changed": {
     userId: string;
     recipientId: string;
     isTyping: boolean;
   };
+  "group-typing-status-changed": {
+    userId: string;
+    userName?: string;
+    groupId: string;
+    isTyping: boolean;
+  };
   "user-status-changed": {
     userId: string;
     status: "online" | "offline";
@@ -28,7 +37,25 @@ export type EventTypes = {
   "websocket-disconnected": "messages" | "presence";
   "connection-quality-changed": "excellent" | "good" | "poor" | "disconnected";
   // Additional events
-  "message-reaction": any;
+  "message-edited": {
+    messageId: string;
+    content: string;
+    editedAt: string;
+    editHistory?: MessageRevision[];
+    groupId?: string;
+  };
+  "message-deleted": {
+    messageId: string;
+    groupId?: string;
+  };
+  "message-reaction": {
+    messageId: string;
+    emoji: string;
+    userId: string;
+    userName?: string;
+    action: "add" | "remove";
+    groupId?: string;
+  };
   "temp-message-replaced": { tempId: string; realId: string; content: string };
   "new-message-received": {
     messageId: string;
@@ -38,6 +65,22 @@ export type EventTypes = {
     timestamp: string;
     formattedTimestamp?: string;
   };
+  // A queued message was delivered by the scheduled-messages dispatcher
+  "scheduled-message-sent": {
+    scheduledId: string;
+    conversationType: "private" | "group";
+    conversationId: string;
+    content: string;
+    reply_to?: any;
+    message?: any;
+  };
+  // An outbox message reached the server and got its real id
+  "outbox-message-sent": {
+    tempId: string;
+    conversationType: "private" | "group";
+    conversationId: string;
+    message?: any;
+  };
   // Chat refresh event for navigation handling
   "chat-refreshed": {
     newRecipientId: string;
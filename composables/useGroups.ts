@@ -1,6 +1,76 @@
 import { defineStore } from "pinia";
 import { ref } from "vue";
 import { useNuxtApp } from "#app";
+import {
+  normalizeReplyReference,
+  type ReplyReference,
+} from "~/utils/replyHelper";
+import {
+  applyReaction,
+  normalizeReactions,
+  type MessageReaction,
+} from "~/utils/reactionHelper";
+import {
+  normalizeForwardReference,
+  type ForwardReference,
+} from "~/utils/forwardHelper";
+import {
+  applyPinChange,
+  normalizePinnedMessage,
+  type PinnedMessage,
+} from "~/utils/pinHelper";
+import { normalizeMentionIds } from "~/utils/mentionHelper";
+import {
+  applyReaders,
+  normalizeReaders,
+  type MessageReader,
+} from "~/utils/readReceiptHelper";
+import {
+  getConversationKey,
+  markConversationSynced,
+  mergeServerPage,
+  readCachedMessages,
+  writeCachedMessages,
+} from "~/utils/messageCache";
+import {
+  applyEdit,
+  normalizeEditHistory,
+  type MessageRevision,
+} from "~/utils/editHistoryHelper";
+import { toDeletedMessage } from "~/utils/deleteHelper";
+import {
+  HISTORY_PAGE_SIZE,
+  mergeHistoryPage,
+  type HistoryCursor,
+} from "~/utils/historyCursorHelper";
+import {
+  applyRoleChange,
+  type GroupRoleChange,
+} from "~/utils/groupRoleHelper";
+import {
+  normalizeInvite,
+  normalizeInvitePreview,
+  type GroupInvite,
+  type GroupInvitePreview,
+} from "~/utils/inviteLinkHelper";
+import {
+  getDecisionStatus,
+  normalizeJoinRequest,
+  removeJoinRequests,
+  upsertJoinRequest,
+  type JoinRequest,
+  type JoinRequestDecision,
+} from "~/utils/joinRequestHelper";
+import {
+  getSlowModeRetryAt,
+  type MemberMute,
+} from "~/utils/groupRestrictionHelper";
+import type {
+  AddMembersPolicy,
+  GroupSettingsChange,
+} from "~/utils/groupSettingsHelper";
+import { useAuthStore } from "./useAuth";
+import type { SendMessageOptions } from "./useMessages";
 
 // Define Group types
 export interface Group {
@@ -13,6 +83,15 @@ export interface Group {
   member_count?: number;
   is_active?: boolean;
   owner_id?: string;
+  // New members need an owner or admin to approve their join request
+  requires_approval?: boolean;
+  // Members may send one message every this many seconds; off when not set
+  slow_mode_seconds?: number;
+  // Announcement mode: only owners and admins can send messages
+  only_admins_can_send?: boolean;
+  only_admins_can_edit_info?: boolean;
+  // Who can add members; all members when not set
+  add_members_policy?: AddMembersPolicy;
   unread_count?: number;
   members?: string[];
   last_message?: {
@@ -43,6 +122,8 @@ interface GroupMember {
   username?: string;
   avatar_url?: string;
   is_owner?: boolean;
+  // The member can't send messages until this time
+  muted_until?: string;
   // Processed name fields from extractMemberName function
   extracted_name?: string;
   display_name?: string;
@@ -70,6 +151,22 @@ interface GroupMessage {
     name: string;
     avatar?: string;
   };
+  // Quoted message this message is replying to
+  reply_to?: ReplyReference;
+  // Emoji reactions, one entry per user and emoji
+  reactions?: MessageReaction[];
+  // Original message this one was forwarded from
+  forwarded_from?: ForwardReference;
+  media_url?: string;
+  // IDs of members @mentioned in the content
+  mention_ids?: string[];
+  // Members who have seen the message, with the time they saw it
+  read_by?: MessageReader[];
+  isEdited?: boolean;
+  // Earlier versions of the content, oldest first
+  edit_history?: MessageRevision[];
+  // Deleted for everyone; the content is replaced by a tombstone text
+  isDeleted?: boolean;
 }
 
 // Pagination interface
@@ -82,6 +179,11 @@ interface Pagination {
 }
 
 // Request data types
+interface CreateInviteData {
+  expires_at?: string;
+  max_uses?: number;
+}
+
 interface CreateGroupData {
   name: string;
   description?: string;
@@ -91,7 +193,13 @@ interface CreateGroupData {
 
 interface UpdateGroupData {
   name?: string;
+  description?: string;
   avatar?: File | null;
+  requires_approval?: boolean;
+  slow_mode_seconds?: number;
+  only_admins_can_send?: boolean;
+  only_admins_can_edit_info?: boolean;
+  add_members_policy?: AddMembersPolicy;
 }
 
 // Define API response
@@ -101,6 +209,22 @@ interface ApiResponse {
   pagination?: Pagination;
 }
 
+/**
+ * Normalize a group message from the API so reply, reaction, forward,
+ * mention, read receipt and edit data render consistently
+ */
+export const normalizeGroupMessage = (message: any): GroupMessage => ({
+  ...message,
+  reply_to: normalizeReplyReference(message),
+  reactions: normalizeReactions(message.reactions),
+  forwarded_from: normalizeForwardReference(message),
+  mention_ids: normalizeMentionIds(message),
+  read_by: normalizeReaders(message),
+  isEdited: message.isEdited ?? message.is_edited,
+  edit_history: normalizeEditHistory(message),
+  isDeleted: message.isDeleted ?? message.is_deleted,
+});
+
 // Define the store for groups management
 export const useGroupsStore = defineStore("groups", () => {
   // State
@@ -108,6 +232,20 @@ export const useGroupsStore = defineStore("groups", () => {
   const currentGroup = ref<Group | null>(null);
   const groupMembers = ref<GroupMember[]>([]);
   const groupMessages = ref<GroupMessage[]>([]);
+  // Pinned messages per group, keyed by group ID
+  const pinnedMessages = ref<Record<string, PinnedMessage[]>>({});
+  // Invite links per group, keyed by group ID; only loaded for admins
+  const inviteLinks = ref<Record<string, GroupInvite[]>>({});
+  // Pending join requests per group, oldest first; only loaded for admins
+  const joinRequests = ref<Record<string, JoinRequest[]>>({});
+  // The current user's own join requests, keyed by group ID
+  const myJoinRequests = ref<Record<string, JoinRequest>>({});
+  // When the current user last sent a message to each group, keyed by group
+  // ID; slow mode counts down from here
+  const lastSentAt = ref<Record<string, string>>({});
+  // Until when the server holds the current user's next message in slow
+  // mode, keyed by group ID; set when it turns a message down
+  const slowModeUntil = ref<Record<string, string>>({});
   const isLoading = ref(false);
   const error = ref<string | null>(null);
 
@@ -499,9 +637,12 @@ export const useGroupsStore = defineStore("groups", () => {
 
       if (updateData.avatar) {
         const formData = new FormData();
-        if (updateData.name) {
-          formData.append("name", updateData.name);
-        }
+        // Every other field that is set goes along as a string
+        Object.entries(updateData).forEach(([key, value]) => {
+          if (key !== "avatar" && value !== undefined) {
+            formData.append(key, String(value));
+          }
+        });
         formData.append("avatar", updateData.avatar);
 
         // Use raw fetch for FormData
@@ -762,8 +903,28 @@ export const useGroupsStore = defineStore("groups", () => {
     }
   }
 
+  // Offline cache key of a group conversation, null while signed out
+  const getGroupCacheKey = (groupId: string) => {
+    const userId = useAuthStore().user?.id;
+    return userId ? getConversationKey(userId, "group", groupId) : null;
+  };
+
+  /**
+   * Show a group's cached messages before the server responds
+   * Returns the number of cached messages
+   */
+  async function loadCachedGroupMessages(groupId: string): Promise<number> {
+    const cacheKey = getGroupCacheKey(groupId);
+    if (!cacheKey) return 0;
+
+    const cached: GroupMessage[] = await readCachedMessages(cacheKey);
+    if (cached.length > 0) groupMessages.value = cached;
+    return cached.length;
+  }
+
   /**
    * Get messages for a specific group
+   * The first page is merged with the offline cache
    */
   async function getGroupMessages(
     groupId: string,
@@ -776,6 +937,9 @@ export const useGroupsStore = defineStore("groups", () => {
     isLoading.value = true;
     error.value = null;
 
+    const isFirstPage = page === 1 || page <= 0;
+    const cacheKey = getGroupCacheKey(groupId);
+
     try {
       console.log(
         `[useGroups] Making API call to unified /message/history endpoint`
@@ -808,21 +972,43 @@ export const useGroupsStore = defineStore("groups", () => {
         );
       }
 
-      if (page === 1 || page <= 0) {
+      const pageMessages: GroupMessage[] = (data.data || []).map(
+        normalizeGroupMessage
+      );
+
+      if (isFirstPage) {
         console.log(
           `[useGroups] Replacing groupMessages with ${
             data?.data?.length || 0
           } new messages`
         );
-        groupMessages.value = data.data || [];
+        const cached = cacheKey ? await readCachedMessages(cacheKey) : [];
+        const merged = mergeServerPage(
+          cached,
+          pageMessages,
+          !!data.pagination?.has_more_pages
+        );
+        groupMessages.value = merged;
+
+        if (cacheKey) {
+          await writeCachedMessages(cacheKey, merged, { replace: true });
+          await markConversationSynced(cacheKey);
+        }
       } else {
         console.log(
           `[useGroups] Adding ${
             data?.data?.length || 0
           } older messages to existing ${groupMessages.value.length}`
         );
+        // Cached history may already contain part of this page
+        const existingIds = new Set(groupMessages.value.map((m) => m.id));
+        const olderMessages = pageMessages.filter(
+          (message) => !existingIds.has(message.id)
+        );
         // For pagination, older messages are usually added at the beginning
-        groupMessages.value = [...(data.data || []), ...groupMessages.value];
+        groupMessages.value = [...olderMessages, ...groupMessages.value];
+
+        if (cacheKey) await writeCachedMessages(cacheKey, pageMessages);
       }
 
       // Update pagination info
@@ -842,6 +1028,14 @@ export const useGroupsStore = defineStore("groups", () => {
         `[useGroups] Error fetching messages for group ${groupId}:`,
         err
       );
+
+      // Keep showing the cached conversation while offline
+      const cached =
+        isFirstPage && cacheKey ? await readCachedMessages(cacheKey) : [];
+      if (cached.length > 0) {
+        groupMessages.value = cached;
+        return { message: error.value || undefined, data: cached };
+      }
       throw err;
     } finally {
       console.log(
@@ -851,6 +1045,52 @@ export const useGroupsStore = defineStore("groups", () => {
     }
   }
 
+  /**
+   * Load a page of group history by time cursor instead of page number
+   * The page is merged into the loaded messages, or replaces them when
+   * jumping to a date; it is not cached, since it may not connect to the
+   * cached history
+   */
+  async function getGroupMessagesByCursor(
+    groupId: string,
+    cursor: HistoryCursor,
+    options: { limit?: number; replace?: boolean } = {}
+  ): Promise<ApiResponse> {
+    const { limit = HISTORY_PAGE_SIZE, replace = false } = options;
+    error.value = null;
+
+    try {
+      const queryParams = new URLSearchParams({
+        type: "group",
+        target_id: groupId,
+        limit: limit.toString(),
+      });
+      if (cursor.before) queryParams.set("before", cursor.before);
+      if (cursor.after) queryParams.set("after", cursor.after);
+
+      const data = await $api.get(
+        `/message/history?${queryParams.toString()}`
+      );
+      const pageMessages: GroupMessage[] = (data.data || []).map(
+        normalizeGroupMessage
+      );
+
+      groupMessages.value = mergeHistoryPage(
+        replace ? [] : groupMessages.value,
+        pageMessages
+      );
+
+      return { ...data, data: pageMessages };
+    } catch (err: any) {
+      error.value = err.message || "Failed to fetch group messages";
+      console.error(
+        `[useGroups] Error fetching messages for group ${groupId}:`,
+        err
+      );
+      throw err;
+    }
+  }
+
   /**
    * Load more messages (older messages)
    */
@@ -870,11 +1110,16 @@ export const useGroupsStore = defineStore("groups", () => {
 
   /**
    * Send a message to a group
+   * mediaUrl attaches a file already uploaded through uploadMedia
    */
   async function sendGroupMessage(
     groupId: string,
     content: string,
-    type = "text"
+    type = "text",
+    replyTo?: ReplyReference,
+    mentionIds: string[] = [],
+    mediaUrl?: string,
+    options: SendMessageOptions = {}
   ): Promise<ApiResponse> {
     console.log(`[useGroups] Sending message to group ${groupId}`);
     console.log(
@@ -894,12 +1139,17 @@ export const useGroupsStore = defineStore("groups", () => {
         content,
         type,
         group_id: groupId,
+        reply_to_id: replyTo?.message_id,
+        mention_ids: mentionIds.length > 0 ? mentionIds : undefined,
+        media_url: mediaUrl,
+        client_message_id: options.clientMessageId,
       });
 
       const endTime = performance.now();
       console.log(
         `[useGroups] Message sent in ${(endTime - startTime).toFixed(2)}ms`
       );
+      recordGroupSend(groupId);
       console.log(
         `[useGroups] API response:`,
         data
@@ -912,11 +1162,14 @@ export const useGroupsStore = defineStore("groups", () => {
 
       return data;
     } catch (err: any) {
-      error.value = err.message || "Failed to send message";
+      if (!options.silent) {
+        error.value = err.message || "Failed to send message";
+      }
       console.error(
         `[useGroups] Error sending message to group ${groupId}:`,
         err
       );
+      recordSlowModeRejection(groupId, err);
       throw err;
     } finally {
       console.log(
@@ -926,6 +1179,270 @@ export const useGroupsStore = defineStore("groups", () => {
     }
   }
 
+  /**
+   * Apply a reaction change to a group message in local state
+   * Replaces the array so watchers on groupMessages pick up the change
+   */
+  function applyGroupMessageReaction(
+    messageId: string,
+    reaction: MessageReaction,
+    action: "add" | "remove"
+  ): void {
+    groupMessages.value = groupMessages.value.map((message) => {
+      if (message.id !== messageId) return message;
+      return {
+        ...message,
+        reactions: applyReaction(message.reactions, reaction, action),
+      };
+    });
+  }
+
+  /**
+   * Apply an edit received via WebSocket to a group message in local state
+   * The replaced content is kept in the message's edit history
+   */
+  function applyGroupMessageEdit(
+    messageId: string,
+    content: string,
+    editedAt: string,
+    serverHistory?: MessageRevision[]
+  ): void {
+    groupMessages.value = groupMessages.value.map((message) =>
+      message.id === messageId
+        ? applyEdit(message, content, editedAt, serverHistory)
+        : message
+    );
+  }
+
+  /**
+   * Replace a group message deleted for everyone with its tombstone
+   */
+  function applyGroupMessageDeletion(messageId: string): void {
+    groupMessages.value = groupMessages.value.map((message) =>
+      message.id === messageId ? toDeletedMessage(message) : message
+    );
+  }
+
+  /**
+   * Put back a group message, e.g. when its deletion is undone
+   */
+  function restoreGroupMessage(original: GroupMessage): void {
+    groupMessages.value = groupMessages.value.map((message) =>
+      message.id === original.id ? original : message
+    );
+  }
+
+  /**
+   * Record that a member has seen some group messages
+   * Replaces the array so watchers on groupMessages pick up the change
+   */
+  function applyGroupReadReceipt(
+    groupId: string,
+    messageIds: string[],
+    reader: MessageReader
+  ): void {
+    const ids = new Set(messageIds);
+    groupMessages.value = groupMessages.value.map((message) => {
+      const inOtherGroup = !!message.group_id && message.group_id !== groupId;
+      if (!ids.has(message.id) || inOtherGroup) return message;
+      return { ...message, read_by: applyReaders(message.read_by, [reader]) };
+    });
+  }
+
+  /**
+   * Tell the server the current user has seen some group messages
+   * Other members receive the receipt over WebSocket
+   */
+  async function markGroupMessagesRead(
+    groupId: string,
+    messageIds: string[]
+  ): Promise<ApiResponse | null> {
+    const ids = messageIds.filter((id) => !id.startsWith("temp-"));
+    if (ids.length === 0) return null;
+
+    const authStore = useAuthStore();
+    if (authStore.user?.id) {
+      applyGroupReadReceipt(groupId, ids, {
+        user_id: authStore.user.id,
+        user_name: authStore.user.name,
+        read_at: new Date().toISOString(),
+      });
+    }
+
+    try {
+      return await $api.put(`/message/read`, {
+        group_id: groupId,
+        message_ids: ids,
+      });
+    } catch (err: any) {
+      error.value = err.message || "Failed to mark messages as read";
+      console.error(
+        `[useGroups] Error marking messages read in group ${groupId}:`,
+        err
+      );
+      throw err;
+    }
+  }
+
+  /**
+   * Add an emoji reaction to a group message
+   */
+  async function addReaction(
+    messageId: string,
+    emoji: string
+  ): Promise<ApiResponse> {
+    const authStore = useAuthStore();
+    const reaction: MessageReaction = {
+      emoji,
+      user_id: authStore.user?.id || "",
+      user_name: authStore.user?.name,
+    };
+
+    // Optimistic update, reverted if the request fails
+    applyGroupMessageReaction(messageId, reaction, "add");
+
+    try {
+      console.log(`[useGroups] Adding reaction ${emoji} to ${messageId}`);
+      return await $api.post(`/message/${messageId}/reactions`, { emoji });
+    } catch (err: any) {
+      applyGroupMessageReaction(messageId, reaction, "remove");
+      error.value = err.message || "Failed to add reaction";
+      console.error(
+        `[useGroups] Error adding reaction to message ${messageId}:`,
+        err
+      );
+      throw err;
+    }
+  }
+
+  /**
+   * Remove the current user's emoji reaction from a group message
+   */
+  async function removeReaction(
+    messageId: string,
+    emoji: string
+  ): Promise<ApiResponse> {
+    const authStore = useAuthStore();
+    const reaction: MessageReaction = {
+      emoji,
+      user_id: authStore.user?.id || "",
+      user_name: authStore.user?.name,
+    };
+
+    // Optimistic update, reverted if the request fails
+    applyGroupMessageReaction(messageId, reaction, "remove");
+
+    try {
+      console.log(`[useGroups] Removing reaction ${emoji} from ${messageId}`);
+      return await $api.delete(
+        `/message/${messageId}/reactions/${encodeURIComponent(emoji)}`
+      );
+    } catch (err: any) {
+      applyGroupMessageReaction(messageId, reaction, "add");
+      error.value = err.message || "Failed to remove reaction";
+      console.error(
+        `[useGroups] Error removing reaction from message ${messageId}:`,
+        err
+      );
+      throw err;
+    }
+  }
+
+  /**
+   * Apply a pin change to a group in local state
+   */
+  function applyPinnedMessageChange(
+    groupId: string,
+    pin: PinnedMessage,
+    action: "pin" | "unpin"
+  ): void {
+    pinnedMessages.value = {
+      ...pinnedMessages.value,
+      [groupId]: applyPinChange(pinnedMessages.value[groupId], pin, action),
+    };
+  }
+
+  /**
+   * Get pinned messages of a group
+   */
+  async function getPinnedMessages(groupId: string): Promise<ApiResponse> {
+    error.value = null;
+
+    try {
+      const data = await $api.get(
+        `/message/pinned?type=group&target_id=${groupId}`
+      );
+
+      const pins = (data.data || [])
+        .map(normalizePinnedMessage)
+        .filter(
+          (pin: PinnedMessage | undefined): pin is PinnedMessage => !!pin
+        )
+        .sort(
+          (a: PinnedMessage, b: PinnedMessage) =>
+            new Date(b.pinned_at).getTime() - new Date(a.pinned_at).getTime()
+        );
+
+      pinnedMessages.value = { ...pinnedMessages.value, [groupId]: pins };
+      return data;
+    } catch (err: any) {
+      error.value = err.message || "Failed to fetch pinned messages";
+      console.error(
+        `[useGroups] Error fetching pinned messages for group ${groupId}:`,
+        err
+      );
+      throw err;
+    }
+  }
+
+  /**
+   * Pin a message in a group
+   */
+  async function pinMessage(
+    groupId: string,
+    pin: PinnedMessage
+  ): Promise<ApiResponse> {
+    // Optimistic update, reverted if the request fails
+    applyPinnedMessageChange(groupId, pin, "pin");
+
+    try {
+      return await $api.post(`/message/${pin.message_id}/pin`, {});
+    } catch (err: any) {
+      applyPinnedMessageChange(groupId, pin, "unpin");
+      error.value = err.message || "Failed to pin message";
+      console.error(`[useGroups] Error pinning message in ${groupId}:`, err);
+      throw err;
+    }
+  }
+
+  /**
+   * Unpin a message in a group
+   */
+  async function unpinMessage(
+    groupId: string,
+    messageId: string
+  ): Promise<ApiResponse> {
+    const existingPin = pinnedMessages.value[groupId]?.find(
+      (pin) => pin.message_id === messageId
+    );
+
+    // Optimistic update, reverted if the request fails
+    if (existingPin) {
+      applyPinnedMessageChange(groupId, existingPin, "unpin");
+    }
+
+    try {
+      return await $api.delete(`/message/${messageId}/pin`);
+    } catch (err: any) {
+      if (existingPin) {
+        applyPinnedMessageChange(groupId, existingPin, "pin");
+      }
+      error.value = err.message || "Failed to unpin message";
+      console.error(`[useGroups] Error unpinning message in ${groupId}:`, err);
+      throw err;
+    }
+  }
+
   /**
    * Send a message with an attachment
    */
@@ -948,10 +1465,12 @@ export const useGroupsStore = defineStore("groups", () => {
       // Use raw fetch for FormData with unified endpoint
       const response = await $api.raw.post(`/message`, formData);
       const data = await response.json();
+      recordGroupSend(groupId);
 
       return data;
     } catch (err: any) {
       error.value = err.message || "Failed to send message with attachment";
+      recordSlowModeRejection(groupId, err);
       console.error(
         `Error sending message with attachment to group ${groupId}:`,
         err
@@ -1079,12 +1598,545 @@ export const useGroupsStore = defineStore("groups", () => {
     }
   }
 
+  /**
+   * Apply a member role change to local state
+   * Ownership transfers also move the group's owner
+   */
+  function applyMemberRoleChange(
+    groupId: string,
+    change: GroupRoleChange
+  ): void {
+    if (change.role === "owner") {
+      const group =
+        currentGroup.value?.id === groupId
+          ? currentGroup.value
+          : groups.value.find((g) => g.id === groupId);
+      const previousOwnerId = change.previous_owner_id || group?.owner_id;
+      change = { ...change, previous_owner_id: previousOwnerId };
+
+      groups.value = groups.value.map((g) =>
+        g.id === groupId ? { ...g, owner_id: change.user_id } : g
+      );
+      if (currentGroup.value?.id === groupId) {
+        currentGroup.value = {
+          ...currentGroup.value,
+          owner_id: change.user_id,
+        };
+      }
+    }
+
+    // Members are only loaded for the open group
+    if (currentGroup.value?.id === groupId) {
+      groupMembers.value = applyRoleChange(groupMembers.value, change);
+    }
+  }
+
+  /**
+   * Make a member an admin, or a regular member again
+   * Other members' clients are updated over WebSocket
+   */
+  async function updateMemberRole(
+    groupId: string,
+    userId: string,
+    role: "admin" | "member"
+  ): Promise<ApiResponse> {
+    error.value = null;
+    const previousRole =
+      groupMembers.value.find((member) => member.user_id === userId)?.role ||
+      "member";
+
+    // Optimistic update, reverted if the request fails
+    applyMemberRoleChange(groupId, { user_id: userId, role });
+
+    try {
+      return await $api.put(`/groups/${groupId}/members/${userId}/role`, {
+        role,
+      });
+    } catch (err: any) {
+      applyMemberRoleChange(groupId, { user_id: userId, role: previousRole });
+      error.value = err.message || "Failed to change member role";
+      console.error(
+        `[useGroups] Error changing role of ${userId} in group ${groupId}:`,
+        err
+      );
+      throw err;
+    }
+  }
+
+  /**
+   * Hand the group over to another member
+   * The current owner stays in the group as an admin
+   */
+  async function transferOwnership(
+    groupId: string,
+    userId: string
+  ): Promise<ApiResponse> {
+    isLoading.value = true;
+    error.value = null;
+
+    try {
+      const data = await $api.post(`/groups/${groupId}/transfer-ownership`, {
+        new_owner_id: userId,
+      });
+
+      applyMemberRoleChange(groupId, {
+        user_id: userId,
+        role: "owner",
+        previous_owner_id: useAuthStore().user?.id,
+      });
+      return data;
+    } catch (err: any) {
+      error.value = err.message || "Failed to transfer group ownership";
+      console.error(
+        `[useGroups] Error transferring ownership of group ${groupId}:`,
+        err
+      );
+      throw err;
+    } finally {
+      isLoading.value = false;
+    }
+  }
+
+  /**
+   * Apply a member mute, or its removal, to local state
+   */
+  function applyMemberMute(groupId: string, mute: MemberMute): void {
+    // Members are only loaded for the open group
+    if (currentGroup.value?.id !== groupId) return;
+
+    groupMembers.value = groupMembers.value.map((member) =>
+      member.user_id === mute.user_id
+        ? { ...member, muted_until: mute.muted_until }
+        : member
+    );
+  }
+
+  // Remember a message the server accepted, which restarts slow mode
+  const recordGroupSend = (groupId: string) => {
+    lastSentAt.value = {
+      ...lastSentAt.value,
+      [groupId]: new Date().toISOString(),
+    };
+    if (slowModeUntil.value[groupId]) {
+      const next = { ...slowModeUntil.value };
+      delete next[groupId];
+      slowModeUntil.value = next;
+    }
+  };
+
+  // The server is the source of truth for slow mode, so its rejection locks
+  // the composer even when local state says the user may send
+  const recordSlowModeRejection = (groupId: string, err: any) => {
+    const group =
+      currentGroup.value?.id === groupId
+        ? currentGroup.value
+        : groups.value.find((g) => g.id === groupId);
+    const retryAt = getSlowModeRetryAt(err, group?.slow_mode_seconds);
+    if (!retryAt) return;
+
+    slowModeUntil.value = { ...slowModeUntil.value, [groupId]: retryAt };
+  };
+
+  /**
+   * Apply a group's slow mode interval to local state
+   */
+  function applySlowMode(groupId: string, seconds: number): void {
+    const slowMode = seconds > 0 ? seconds : undefined;
+
+    groups.value = groups.value.map((g) =>
+      g.id === groupId ? { ...g, slow_mode_seconds: slowMode } : g
+    );
+    if (currentGroup.value?.id === groupId) {
+      currentGroup.value = {
+        ...currentGroup.value,
+        slow_mode_seconds: slowMode,
+      };
+    }
+  }
+
+  /**
+   * Apply a change to a group's info or permissions to local state
+   */
+  function applyGroupSettings(
+    groupId: string,
+    change: GroupSettingsChange
+  ): void {
+    groups.value = groups.value.map((g) =>
+      g.id === groupId ? { ...g, ...change } : g
+    );
+    if (currentGroup.value?.id === groupId) {
+      currentGroup.value = { ...currentGroup.value, ...change };
+    }
+  }
+
+  /**
+   * Keep a member from sending messages until a given time
+   */
+  async function muteMember(
+    groupId: string,
+    userId: string,
+    mutedUntil: string
+  ): Promise<ApiResponse> {
+    error.value = null;
+    const previous = groupMembers.value.find(
+      (member) => member.user_id === userId
+    )?.muted_until;
+
+    // Optimistic update, reverted if the request fails
+    applyMemberMute(groupId, { user_id: userId, muted_until: mutedUntil });
+
+    try {
+      return await $api.put(`/groups/${groupId}/members/${userId}/mute`, {
+        muted_until: mutedUntil,
+      });
+    } catch (err: any) {
+      applyMemberMute(groupId, { user_id: userId, muted_until: previous });
+      error.value = err.message || "Failed to mute member";
+      console.error(
+        `[useGroups] Error muting ${userId} in group ${groupId}:`,
+        err
+      );
+      throw err;
+    }
+  }
+
+  /**
+   * Lift a member's mute before it runs out
+   */
+  async function unmuteMember(
+    groupId: string,
+    userId: string
+  ): Promise<ApiResponse> {
+    error.value = null;
+    const previous = groupMembers.value.find(
+      (member) => member.user_id === userId
+    )?.muted_until;
+
+    // Optimistic update, reverted if the request fails
+    applyMemberMute(groupId, { user_id: userId });
+
+    try {
+      return await $api.delete(`/groups/${groupId}/members/${userId}/mute`);
+    } catch (err: any) {
+      applyMemberMute(groupId, { user_id: userId, muted_until: previous });
+      error.value = err.message || "Failed to unmute member";
+      console.error(
+        `[useGroups] Error unmuting ${userId} in group ${groupId}:`,
+        err
+      );
+      throw err;
+    }
+  }
+
+  /**
+   * Get the invite links of a group, newest first
+   */
+  async function getInviteLinks(groupId: string): Promise<ApiResponse> {
+    error.value = null;
+
+    try {
+      const data = await $api.get(`/groups/${groupId}/invites`);
+
+      const invites = (data.data || data.invites || [])
+        .map(normalizeInvite)
+        .filter(
+          (invite: GroupInvite | undefined): invite is GroupInvite => !!invite
+        )
+        .sort(
+          (a: GroupInvite, b: GroupInvite) =>
+            new Date(b.created_at).getTime() - new Date(a.created_at).getTime()
+        );
+
+      inviteLinks.value = { ...inviteLinks.value, [groupId]: invites };
+      return data;
+    } catch (err: any) {
+      error.value = err.message || "Failed to fetch invite links";
+      console.error(
+        `[useGroups] Error fetching invite links for group ${groupId}:`,
+        err
+      );
+      throw err;
+    }
+  }
+
+  /**
+   * Create an invite link, optionally expiring or limited in uses
+   */
+  async function createInviteLink(
+    groupId: string,
+    options: CreateInviteData = {}
+  ): Promise<GroupInvite> {
+    error.value = null;
+
+    try {
+      const data = await $api.post(`/groups/${groupId}/invites`, options);
+      const invite = normalizeInvite({
+        group_id: groupId,
+        ...options,
+        ...(data.data || data),
+      });
+      if (!invite) throw new Error("Invalid invite link received");
+
+      inviteLinks.value = {
+        ...inviteLinks.value,
+        [groupId]: [invite, ...(inviteLinks.value[groupId] || [])],
+      };
+      return invite;
+    } catch (err: any) {
+      error.value = err.message || "Failed to create invite link";
+      console.error(
+        `[useGroups] Error creating invite link for group ${groupId}:`,
+        err
+      );
+      throw err;
+    }
+  }
+
+  /**
+   * Revoke an invite link so it can no longer be used to join
+   */
+  async function revokeInviteLink(
+    groupId: string,
+    code: string
+  ): Promise<ApiResponse> {
+    error.value = null;
+    const previous = inviteLinks.value[groupId] || [];
+
+    // Optimistic update, reverted if the request fails
+    inviteLinks.value = {
+      ...inviteLinks.value,
+      [groupId]: previous.filter((invite) => invite.code !== code),
+    };
+
+    try {
+      return await $api.delete(
+        `/groups/${groupId}/invites/${encodeURIComponent(code)}`
+      );
+    } catch (err: any) {
+      inviteLinks.value = { ...inviteLinks.value, [groupId]: previous };
+      error.value = err.message || "Failed to revoke invite link";
+      console.error(
+        `[useGroups] Error revoking invite link of group ${groupId}:`,
+        err
+      );
+      throw err;
+    }
+  }
+
+  /**
+   * Preview the group behind an invite code before joining
+   */
+  async function getInvitePreview(code: string): Promise<GroupInvitePreview> {
+    error.value = null;
+
+    try {
+      const data = await $api.get(
+        `/groups/invites/${encodeURIComponent(code)}`
+      );
+      const preview = normalizeInvitePreview(data.data || data, code);
+      if (!preview) throw new Error("This invite link is not valid");
+      return preview;
+    } catch (err: any) {
+      error.value = err.message || "Failed to load invite link";
+      console.error(`[useGroups] Error loading invite ${code}:`, err);
+      throw err;
+    }
+  }
+
+  /**
+   * Join a group through an invite code
+   * Groups that require approval answer with a pending join request instead
+   */
+  async function joinGroupByInvite(
+    code: string
+  ): Promise<{ groupId: string; request?: JoinRequest }> {
+    isLoading.value = true;
+    error.value = null;
+
+    try {
+      const data = await $api.post(
+        `/groups/invites/${encodeURIComponent(code)}/join`,
+        {}
+      );
+      const result = data.data || data;
+
+      const request = normalizeJoinRequest(
+        result.request || (result.status === "pending" ? result : null)
+      );
+      if (request) {
+        applyJoinRequestUpdate(request);
+        return { groupId: request.group_id, request };
+      }
+
+      // Show the new group in the list
+      await getGroups();
+      return { groupId: result.group_id || result.id };
+    } catch (err: any) {
+      error.value = err.message || "Failed to join group";
+      console.error(`[useGroups] Error joining with invite ${code}:`, err);
+      throw err;
+    } finally {
+      isLoading.value = false;
+    }
+  }
+
+  /**
+   * Apply a new join request, or a decision on one, to local state
+   */
+  function applyJoinRequestUpdate(request: JoinRequest): void {
+    if (request.user_id === useAuthStore().user?.id) {
+      myJoinRequests.value = {
+        ...myJoinRequests.value,
+        [request.group_id]: request,
+      };
+      return;
+    }
+
+    // Only loaded queues are kept up to date
+    const queue = joinRequests.value[request.group_id];
+    if (!queue) return;
+
+    joinRequests.value = {
+      ...joinRequests.value,
+      [request.group_id]:
+        request.status === "pending"
+          ? upsertJoinRequest(queue, request)
+          : removeJoinRequests(queue, [request.id]),
+    };
+  }
+
+  /**
+   * Get the pending join requests of a group
+   */
+  async function getJoinRequests(groupId: string): Promise<ApiResponse> {
+    error.value = null;
+
+    try {
+      const data = await $api.get(
+        `/groups/${groupId}/join-requests?status=pending`
+      );
+
+      const requests = (data.data || data.requests || [])
+        .map((raw: any) => normalizeJoinRequest({ group_id: groupId, ...raw }))
+        .filter(
+          (request: JoinRequest | undefined): request is JoinRequest =>
+            !!request && request.status === "pending"
+        )
+        .sort(
+          (a: JoinRequest, b: JoinRequest) =>
+            new Date(a.created_at).getTime() - new Date(b.created_at).getTime()
+        );
+
+      joinRequests.value = { ...joinRequests.value, [groupId]: requests };
+      return data;
+    } catch (err: any) {
+      error.value = err.message || "Failed to fetch join requests";
+      console.error(
+        `[useGroups] Error fetching join requests for group ${groupId}:`,
+        err
+      );
+      throw err;
+    }
+  }
+
+  /**
+   * Approve or reject one or more join requests
+   * Approved requesters become members
+   */
+  async function reviewJoinRequests(
+    groupId: string,
+    requestIds: string[],
+    decision: JoinRequestDecision
+  ): Promise<ApiResponse> {
+    error.value = null;
+    const previous = joinRequests.value[groupId] || [];
+
+    // Optimistic update, reverted if the request fails
+    joinRequests.value = {
+      ...joinRequests.value,
+      [groupId]: removeJoinRequests(previous, requestIds),
+    };
+
+    try {
+      const data = await $api.post(`/groups/${groupId}/join-requests/review`, {
+        request_ids: requestIds,
+        status: getDecisionStatus(decision),
+      });
+
+      if (decision === "approve" && currentGroup.value?.id === groupId) {
+        await getGroupMembers(groupId);
+      }
+      return data;
+    } catch (err: any) {
+      joinRequests.value = { ...joinRequests.value, [groupId]: previous };
+      error.value = err.message || "Failed to review join requests";
+      console.error(
+        `[useGroups] Error reviewing join requests of group ${groupId}:`,
+        err
+      );
+      throw err;
+    }
+  }
+
+  /**
+   * Get the current user's join request for a group, if any
+   */
+  async function getMyJoinRequest(
+    groupId: string
+  ): Promise<JoinRequest | null> {
+    error.value = null;
+
+    try {
+      const data = await $api.get(`/groups/${groupId}/join-requests/me`);
+      const request = normalizeJoinRequest({
+        group_id: groupId,
+        ...(data.data || data),
+      });
+      if (request) applyJoinRequestUpdate(request);
+      return request || null;
+    } catch (err: any) {
+      error.value = err.message || "Failed to fetch join request";
+      console.error(
+        `[useGroups] Error fetching own join request for ${groupId}:`,
+        err
+      );
+      throw err;
+    }
+  }
+
+  /**
+   * Withdraw the current user's pending join request
+   */
+  async function cancelJoinRequest(groupId: string): Promise<ApiResponse> {
+    error.value = null;
+
+    try {
+      const data = await $api.delete(`/groups/${groupId}/join-requests/me`);
+      const { [groupId]: _cancelled, ...rest } = myJoinRequests.value;
+      myJoinRequests.value = rest;
+      return data;
+    } catch (err: any) {
+      error.value = err.message || "Failed to cancel join request";
+      console.error(
+        `[useGroups] Error cancelling join request for ${groupId}:`,
+        err
+      );
+      throw err;
+    }
+  }
+
   return {
     // State
     groups,
     currentGroup,
     groupMembers,
     groupMessages,
+    pinnedMessages,
+    inviteLinks,
+    joinRequests,
+    myJoinRequests,
+    lastSentAt,
+    slowModeUntil,
     blockedUsers,
     isLoading,
     error,
@@ -1101,12 +2153,44 @@ export const useGroupsStore = defineStore("groups", () => {
     addGroupMembers,
     removeGroupMember,
     leaveGroup,
+    loadCachedGroupMessages,
     getGroupMessages,
+    getGroupMessagesByCursor,
     loadMoreMessages,
     sendGroupMessage,
+    addReaction,
+    removeReaction,
+    applyGroupMessageReaction,
+    applyGroupMessageEdit,
+    applyGroupMessageDeletion,
+    restoreGroupMessage,
+    applyGroupReadReceipt,
+    markGroupMessagesRead,
+    getPinnedMessages,
+    pinMessage,
+    unpinMessage,
+    applyPinnedMessageChange,
     sendGroupMessageWithAttachment,
     getGroupBlocks,
     blockGroupUser,
     unblockGroupUser,
+    applyMemberRoleChange,
+    updateMemberRole,
+    transferOwnership,
+    applyMemberMute,
+    applySlowMode,
+    applyGroupSettings,
+    muteMember,
+    unmuteMember,
+    getInviteLinks,
+    createInviteLink,
+    revokeInviteLink,
+    getInvitePreview,
+    joinGroupByInvite,
+    applyJoinRequestUpdate,
+    getJoinRequests,
+    reviewJoinRequests,
+    getMyJoinRequest,
+    cancelJoinRequest,
   };
 });
@@ -0,0 +1,180 @@
+import { defineStore } from "pinia";
+import { computed, ref, watch } from "vue";
+import { useNuxtApp } from "#app";
+import { useAuthStore } from "./useAuth";
+
+export type DeleteMode = "me" | "everyone";
+
+export interface DeleteForEveryoneActions {
+  // Show the message as deleted right away
+  apply: () => void;
+  // Bring the message back after an undo or a failed delete
+  revert: () => void;
+  // Delete the message on the server once the undo window has passed
+  commit: () => Promise<unknown>;
+}
+
+// Hidden messages are stored per user so a shared browser never leaks them
+const HIDDEN_STORAGE_PREFIX = "chat_hidden_messages_";
+// Only the most recently hidden messages are kept so the list cannot fill
+// up localStorage; older ones may show up again in long histories
+const MAX_HIDDEN_MESSAGES = 2000;
+
+/**
+ * Deleting messages for the current user only (hidden in this browser) or
+ * for everyone (deleted on the server), both with an undo toast
+ * Deletes for everyone are held back until the toast closes, so undoing
+ * never needs the server
+ */
+export const useMessageDeletionStore = defineStore("messageDeletion", () => {
+  // State
+  const hiddenMessageIds = ref<string[]>([]);
+  // Looked up for every rendered message
+  const hiddenIdSet = computed(() => new Set(hiddenMessageIds.value));
+
+  const authStore = useAuthStore();
+  const { $toast } = useNuxtApp();
+
+  // Deletes for everyone waiting for their undo window to pass
+  const pendingDeletes = new Map<string, DeleteForEveryoneActions>();
+
+  const getStorageKey = () =>
+    authStore.user?.id ? `${HIDDEN_STORAGE_PREFIX}${authStore.user.id}` : null;
+
+  /**
+   * Load the current user's hidden messages from localStorage
+   */
+  function loadHiddenMessages(): void {
+    if (!process.client) return;
+
+    const storageKey = getStorageKey();
+    if (!storageKey) {
+      hiddenMessageIds.value = [];
+      return;
+    }
+
+    try {
+      const stored = localStorage.getItem(storageKey);
+      hiddenMessageIds.value = stored
+        ? JSON.parse(stored).slice(-MAX_HIDDEN_MESSAGES)
+        : [];
+    } catch (err) {
+      console.error("[useMessageDeletion] Error loading hidden messages:", err);
+      hiddenMessageIds.value = [];
+    }
+  }
+
+  function persistHiddenMessages(): void {
+    if (!process.client) return;
+
+    const storageKey = getStorageKey();
+    if (!storageKey) return;
+
+    try {
+      if (hiddenMessageIds.value.length === 0) {
+        localStorage.removeItem(storageKey);
+      } else {
+        localStorage.setItem(
+          storageKey,
+          JSON.stringify(hiddenMessageIds.value)
+        );
+      }
+    } catch (err) {
+      console.error("[useMessageDeletion] Error saving hidden messages:", err);
+    }
+  }
+
+  /**
+   * Check whether the current user deleted a message for themselves
+   */
+  function isMessageHidden(messageId: string): boolean {
+    return hiddenIdSet.value.has(messageId);
+  }
+
+  function hideMessage(messageId: string): void {
+    if (isMessageHidden(messageId)) return;
+    hiddenMessageIds.value = [...hiddenMessageIds.value, messageId].slice(
+      -MAX_HIDDEN_MESSAGES
+    );
+    persistHiddenMessages();
+  }
+
+  function unhideMessage(messageId: string): void {
+    hiddenMessageIds.value = hiddenMessageIds.value.filter(
+      (id) => id !== messageId
+    );
+    persistHiddenMessages();
+  }
+
+  /**
+   * Hide a message for the current user only
+   */
+  function deleteForMe(messageId: string): void {
+    hideMessage(messageId);
+    $toast?.undo("Message deleted for you", {
+      onUndo: () => unhideMessage(messageId),
+    });
+  }
+
+  async function commitPendingDelete(messageId: string): Promise<void> {
+    const actions = pendingDeletes.get(messageId);
+    if (!actions) return;
+    pendingDeletes.delete(messageId);
+
+    try {
+      await actions.commit();
+    } catch (err) {
+      // The store that made the request already reported the error
+      console.error(`[useMessageDeletion] Failed to delete ${messageId}:`, err);
+      actions.revert();
+    }
+  }
+
+  /**
+   * Delete a message for every participant once the undo window has passed
+   */
+  function deleteForEveryone(
+    messageId: string,
+    actions: DeleteForEveryoneActions
+  ): void {
+    if (pendingDeletes.has(messageId)) return;
+
+    actions.apply();
+    pendingDeletes.set(messageId, actions);
+
+    $toast?.undo("Message deleted for everyone", {
+      onUndo: () => {
+        if (!pendingDeletes.delete(messageId)) return;
+        actions.revert();
+      },
+      onExpire: () => commitPendingDelete(messageId),
+    });
+  }
+
+  if (process.client) {
+    // Leaving the page ends the undo window early
+    window.addEventListener("pagehide", () => {
+      Array.from(pendingDeletes.keys()).forEach(commitPendingDelete);
+    });
+
+    // Keep tabs in sync when another tab hides a message
+    window.addEventListener("storage", (event) => {
+      if (event.key && event.key === getStorageKey()) {
+        loadHiddenMessages();
+      }
+    });
+  }
+
+  // Reload whenever the signed-in user changes
+  watch(() => authStore.user?.id, loadHiddenMessages, { immediate: true });
+
+  return {
+    // State
+    hiddenMessageIds,
+
+    // Actions
+    isMessageHidden,
+    deleteForMe,
+    deleteForEveryone,
+  };
+});
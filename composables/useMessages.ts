@@ -1,6 +1,43 @@
 import { defineStore } from "pinia";
 import { ref } from "vue";
 import { useNuxtApp } from "#app";
+import {
+  normalizeReplyReference,
+  type ReplyReference,
+} from "~/utils/replyHelper";
+import {
+  applyReaction,
+  normalizeReactions,
+  type MessageReaction,
+} from "~/utils/reactionHelper";
+import {
+  normalizeForwardReference,
+  type ForwardReference,
+  type ForwardTarget,
+} from "~/utils/forwardHelper";
+import {
+  applyPinChange,
+  normalizePinnedMessage,
+  type PinnedMessage,
+} from "~/utils/pinHelper";
+import {
+  getConversationKey,
+  markConversationSynced,
+  mergeServerPage,
+  readCachedMessages,
+  searchCachedMessages,
+  updateCachedMessage,
+  writeCachedMessages,
+} from "~/utils/messageCache";
+import { mergeSearchResults } from "~/utils/searchIndex";
+import {
+  applyEdit,
+  normalizeEditHistory,
+  type MessageRevision,
+} from "~/utils/editHistoryHelper";
+import { toDeletedMessage } from "~/utils/deleteHelper";
+import type { RawSearchHit } from "~/utils/searchHelper";
+import { useAuthStore } from "./useAuth";
 
 // Define Message types
 interface Message {
@@ -38,6 +75,22 @@ interface Message {
   fromWebSocket?: boolean;
   updatedViaWebSocket?: boolean;
   recoveredFromError?: boolean;
+  // Quoted message this message is replying to
+  reply_to?: ReplyReference;
+  // Emoji reactions, one entry per user and emoji
+  reactions?: MessageReaction[];
+  // Original message this one was forwarded from
+  forwarded_from?: ForwardReference;
+  // Earlier versions of the content, oldest first
+  edit_history?: MessageRevision[];
+}
+
+// Options for messages that may be sent more than once, e.g. by the outbox
+export interface SendMessageOptions {
+  // Lets the server drop a retry of a message it already has
+  clientMessageId?: string;
+  // The caller reports failures itself, so no error toast or store error
+  silent?: boolean;
 }
 
 // Updated interface for SearchMessagesParams
@@ -49,12 +102,28 @@ interface SearchMessagesParams {
   offset?: number;
 }
 
+// Search across every conversation the user is part of
+export interface GlobalSearchParams {
+  q: string;
+  sender_id?: string;
+  conversation_id?: string;
+  conversation_type?: "private" | "group";
+  // Inclusive date range, YYYY-MM-DD
+  from?: string;
+  to?: string;
+  has_attachment?: boolean;
+  message_type?: string;
+  limit?: number;
+  offset?: number;
+}
+
 // Message history request params
 interface MessageHistoryParams {
   type: "private" | "group";
   target_id: string;
   limit?: number;
   before?: string;
+  after?: string;
 }
 
 // Unified message request params interface
@@ -63,7 +132,10 @@ interface UnifiedMessageParams {
   type: "private" | "group";
   limit?: number;
   page?: number;
+  // Time cursors; pages loaded with them are not cached, since they may not
+  // connect to the cached history
   before?: string;
+  after?: string;
 }
 
 // New message request interface
@@ -73,6 +145,9 @@ interface SendMessageRequest {
   group_id?: string;
   type?: string;
   attachment_url?: string;
+  media_url?: string;
+  reply_to_id?: string;
+  forwarded_from?: ForwardReference;
 }
 
 // Pagination interface
@@ -91,6 +166,10 @@ interface ApiResponse {
   pagination?: Pagination;
 }
 
+export interface GlobalSearchResponse extends ApiResponse {
+  data?: RawSearchHit[];
+}
+
 // Define the store for messages management
 export const useMessagesStore = defineStore("messages", () => {
   // State
@@ -98,6 +177,9 @@ export const useMessagesStore = defineStore("messages", () => {
   const isLoading = ref(false);
   const error = ref<string | null>(null);
 
+  // Pinned messages per private conversation, keyed by the other user's ID
+  const pinnedMessages = ref<Record<string, PinnedMessage[]>>({});
+
   // Pagination
   const messagesPagination = ref<Pagination>({
     current_page: 1,
@@ -114,9 +196,40 @@ export const useMessagesStore = defineStore("messages", () => {
   // Use proxy URL instead of direct API calls to avoid CORS issues
   const proxyUrl = "/api/proxy";
 
+  // Offline cache key of a conversation, null while signed out
+  const getCacheKey = (type: "private" | "group", targetId: string) => {
+    const userId = useAuthStore().user?.id;
+    return userId ? getConversationKey(userId, type, targetId) : null;
+  };
+
+  /**
+   * Read a conversation from the offline cache for instant display
+   */
+  async function getCachedMessages(
+    targetId: string,
+    type: "private" | "group" = "private"
+  ): Promise<Message[]> {
+    const cacheKey = getCacheKey(type, targetId);
+    return cacheKey ? readCachedMessages(cacheKey) : [];
+  }
+
+  /**
+   * Insert or update messages of a conversation in the offline cache
+   */
+  async function cacheMessages(
+    targetId: string,
+    type: "private" | "group",
+    messagesToCache: any[]
+  ): Promise<void> {
+    const cacheKey = getCacheKey(type, targetId);
+    if (cacheKey) await writeCachedMessages(cacheKey, messagesToCache);
+  }
+
   /**
    * Unified function to get messages - supports both initial load and pagination
    * Uses consistent parameter structure for both scenarios
+   * The initial load is merged with the offline cache, so older cached
+   * history stays available and edits or deletions on the server win
    */
   async function getMessages(
     params: UnifiedMessageParams
@@ -124,12 +237,21 @@ export const useMessagesStore = defineStore("messages", () => {
     isLoading.value = true;
     error.value = null;
 
+    const { target_id, type = "private", page, before, after } = params;
+    const isCursorPage = !!before || !!after;
+    const isInitialLoad = (!page || page === 1) && !isCursorPage;
+    const cacheKey = getCacheKey(type, target_id);
+    // Read the cache while the request is in flight
+    const cachedPromise: Promise<Message[]> =
+      isInitialLoad && cacheKey
+        ? readCachedMessages(cacheKey)
+        : Promise.resolve([]);
+
     try {
-      const { target_id, type = "private", limit = 20, page, before } = params;
+      const { limit = 20 } = params;
 
       // Determine if this is pagination (before parameter) or page-based load
       const isPagination = !!before;
-      const isInitialLoad = !page || page === 1;
 
       // Build query parameters consistently
       let queryParams = new URLSearchParams({
@@ -138,9 +260,11 @@ export const useMessagesStore = defineStore("messages", () => {
         limit: limit.toString(),
       });
 
-      // Add pagination parameter (before takes precedence over page)
+      // Add pagination parameter (cursors take precedence over page)
       if (before) {
         queryParams.append("before", before);
+      } else if (after) {
+        queryParams.append("after", after);
       } else if (page && page > 1) {
         queryParams.append("page", page.toString());
       }
@@ -210,17 +334,37 @@ export const useMessagesStore = defineStore("messages", () => {
         // Ensure both id and message_id are available for compatibility
         id: msg.id || msg.message_id,
         message_id: msg.message_id || msg.id,
+        reply_to: normalizeReplyReference(msg),
+        reactions: normalizeReactions(msg.reactions),
+        forwarded_from: normalizeForwardReference(msg),
       }));
 
       console.log(`[useMessages] Retrieved ${messagesArray.length} messages`);
 
       // Handle message array updates based on load type
-      if (isInitialLoad && !before) {
-        // Initial load - replace messages array
-        messages.value = messagesArray;
+      if (isInitialLoad) {
+        // Initial load - combine the newest page with cached history
+        const merged = mergeServerPage(
+          await cachedPromise,
+          messagesArray,
+          !!response.pagination?.has_more_pages
+        );
+        messages.value = merged;
         console.log(
           `[useMessages] Initial load: Set ${messages.value.length} messages`
         );
+
+        if (response.pagination) {
+          messagesPagination.value = response.pagination;
+        }
+        if (cacheKey) {
+          await writeCachedMessages(cacheKey, merged, { replace: true });
+          await markConversationSynced(cacheKey);
+        }
+
+        return Array.isArray(response)
+          ? (merged as any)
+          : { ...response, data: merged };
       } else {
         // Pagination - safely merge messages without duplicates
         // Handle both id and message_id fields for proper duplicate detection
@@ -233,7 +377,10 @@ export const useMessagesStore = defineStore("messages", () => {
         });
 
         if (newMessages.length > 0) {
-          if (before) {
+          if (after) {
+            // Cursor pagination - add newer messages at the end
+            messages.value = [...messages.value, ...newMessages];
+          } else if (before) {
             // Cursor pagination - add older messages at the beginning
             console.log(
               `[useMessages] Pagination: Adding ${newMessages.length} older messages`
@@ -247,10 +394,15 @@ export const useMessagesStore = defineStore("messages", () => {
             messages.value = [...newMessages, ...messages.value];
           }
         }
+
+        if (cacheKey && !isCursorPage) {
+          await writeCachedMessages(cacheKey, messagesArray);
+        }
       }
 
-      // Update pagination info if provided
-      if (response.pagination) {
+      // Update pagination info if provided; it counts pages from the latest
+      // messages, so cursor pages leave it alone
+      if (response.pagination && !isCursorPage) {
         messagesPagination.value = response.pagination;
       }
 
@@ -258,6 +410,15 @@ export const useMessagesStore = defineStore("messages", () => {
     } catch (err: any) {
       const errorMsg = err.message || "Failed to fetch messages";
       error.value = errorMsg;
+
+      // Keep showing the cached conversation while offline
+      const cachedMessages = await cachedPromise;
+      if (cachedMessages.length > 0) {
+        messages.value = cachedMessages;
+        if ($toast) $toast.warning("Offline: showing saved messages");
+        return { message: errorMsg, data: cachedMessages };
+      }
+
       if ($toast) $toast.error(errorMsg);
       throw err;
     } finally {
@@ -330,7 +491,9 @@ export const useMessagesStore = defineStore("messages", () => {
     recipientId: string,
     content: string,
     type = "text",
-    attachmentUrl?: string
+    attachmentUrl?: string,
+    replyTo?: ReplyReference,
+    options: SendMessageOptions = {}
   ): Promise<ApiResponse> {
     isLoading.value = true;
     error.value = null;
@@ -341,6 +504,8 @@ export const useMessagesStore = defineStore("messages", () => {
         receiver_id: recipientId,
         type,
         attachment_url: attachmentUrl,
+        reply_to_id: replyTo?.message_id,
+        client_message_id: options.clientMessageId,
       };
 
       // Use unified /message endpoint for sending messages
@@ -348,14 +513,19 @@ export const useMessagesStore = defineStore("messages", () => {
 
       // Add message to the messages array if successful
       if (response.data) {
-        messages.value.push(response.data);
+        messages.value.push({
+          ...response.data,
+          reply_to: normalizeReplyReference(response.data) || replyTo,
+        });
       }
 
       return response;
     } catch (err: any) {
-      const errorMsg = err.message || "Failed to send message";
-      error.value = errorMsg;
-      if ($toast) $toast.error(errorMsg);
+      if (!options.silent) {
+        const errorMsg = err.message || "Failed to send message";
+        error.value = errorMsg;
+        if ($toast) $toast.error(errorMsg);
+      }
       throw err;
     } finally {
       isLoading.value = false;
@@ -369,7 +539,9 @@ export const useMessagesStore = defineStore("messages", () => {
     groupId: string,
     content: string,
     type = "text",
-    attachmentUrl?: string
+    attachmentUrl?: string,
+    replyTo?: ReplyReference,
+    options: SendMessageOptions = {}
   ): Promise<ApiResponse> {
     isLoading.value = true;
     error.value = null;
@@ -380,6 +552,8 @@ export const useMessagesStore = defineStore("messages", () => {
         group_id: groupId,
         type,
         attachment_url: attachmentUrl,
+        reply_to_id: replyTo?.message_id,
+        client_message_id: options.clientMessageId,
       };
 
       // Use unified /message endpoint for sending group messages
@@ -387,20 +561,84 @@ export const useMessagesStore = defineStore("messages", () => {
 
       // Add message to the messages array if successful
       if (response.data) {
-        messages.value.push(response.data);
+        messages.value.push({
+          ...response.data,
+          reply_to: normalizeReplyReference(response.data) || replyTo,
+        });
       }
 
       return response;
     } catch (err: any) {
-      const errorMsg = err.message || "Failed to send group message";
-      error.value = errorMsg;
-      if ($toast) $toast.error(errorMsg);
+      if (!options.silent) {
+        const errorMsg = err.message || "Failed to send group message";
+        error.value = errorMsg;
+        if ($toast) $toast.error(errorMsg);
+      }
       throw err;
     } finally {
       isLoading.value = false;
     }
   }
 
+  /**
+   * Forward a message to several friends and groups in one action
+   * Attachments are re-sent by reference via media_url instead of re-uploaded
+   */
+  async function forwardMessage(
+    message: { content: string; type?: string; media_url?: string },
+    targets: ForwardTarget[],
+    forwardedFrom: ForwardReference
+  ): Promise<{ sent: ForwardTarget[]; failed: ForwardTarget[] }> {
+    isLoading.value = true;
+    error.value = null;
+
+    try {
+      const results = await Promise.allSettled(
+        targets.map((target) => {
+          const messageData: SendMessageRequest = {
+            content: message.content,
+            type: message.type || "text",
+            media_url: message.media_url,
+            forwarded_from: forwardedFrom,
+          };
+
+          if (target.type === "group") {
+            messageData.group_id = target.id;
+          } else {
+            messageData.receiver_id = target.id;
+          }
+
+          return $api.post("/message", messageData);
+        })
+      );
+
+      const sent: ForwardTarget[] = [];
+      const failed: ForwardTarget[] = [];
+
+      results.forEach((result, index) => {
+        if (result.status === "fulfilled") {
+          sent.push(targets[index]);
+        } else {
+          console.error(
+            `[useMessages] Failed to forward to ${targets[index].type} ${targets[index].id}:`,
+            result.reason
+          );
+          failed.push(targets[index]);
+        }
+      });
+
+      if (failed.length > 0) {
+        error.value = `Failed to forward to ${failed
+          .map((target) => target.name)
+          .join(", ")}`;
+      }
+
+      return { sent, failed };
+    } finally {
+      isLoading.value = false;
+    }
+  }
+
   /**
    * Edit a message
    */
@@ -435,17 +673,11 @@ export const useMessagesStore = defineStore("messages", () => {
         } else {
           // For truly temporary messages that haven't been sent to the server yet,
           // just update them in the local state without making an API call
-          messages.value = messages.value.map((message) => {
-            if (message.id === messageId) {
-              return {
-                ...message,
-                content,
-                updated_at: new Date().toISOString(),
-                isEdited: true,
-              };
-            }
-            return message;
-          });
+          messages.value = messages.value.map((message) =>
+            message.id === messageId
+              ? applyEdit(message, content, new Date().toISOString())
+              : message
+          );
           console.log(
             `[useMessages] This is a local-only temporary message, updating without API call`
           );
@@ -475,18 +707,29 @@ export const useMessagesStore = defineStore("messages", () => {
               isEdited: true,
             }
           );
-          return {
-            ...message,
+          return applyEdit(
+            message,
             content,
-            updated_at: new Date().toISOString(),
-            isEdited: true,
-          };
+            response.data?.updated_at || new Date().toISOString(),
+            normalizeEditHistory(response.data)
+          );
         }
         return message;
       });
       console.log(
         `[useMessages] Updated ${beforeCount} messages in local state`
       );
+      const userId = useAuthStore().user?.id;
+      if (userId) {
+        updateCachedMessage(userId, messageId, (message) =>
+          applyEdit(
+            message,
+            content,
+            response.data?.updated_at || new Date().toISOString(),
+            normalizeEditHistory(response.data)
+          )
+        );
+      }
 
       // Check if the API response contains the updated message data
       if (response.data && response.data.isEdited !== undefined) {
@@ -606,19 +849,10 @@ export const useMessagesStore = defineStore("messages", () => {
       const response = await $api.delete(deleteEndpoint);
       console.log(`[useMessages] Delete response:`, response);
 
-      // Remove the message from our local state
-      const beforeCount = messages.value.length;
-      messages.value = messages.value.filter(
-        (message) =>
-          // Filter out both the original message and any duplicates with matching message_id
-          message.id !== messageId && message.message_id !== messageId
-      );
-      const afterCount = messages.value.length;
-      console.log(
-        `[useMessages] Removed ${
-          beforeCount - afterCount
-        } messages from local state`
-      );
+      // Leave a tombstone, as every other participant will see
+      applyMessageDeletion(messageId);
+      const userId = useAuthStore().user?.id;
+      if (userId) updateCachedMessage(userId, messageId, toDeletedMessage);
 
       return response;
     } catch (err: any) {
@@ -631,6 +865,220 @@ export const useMessagesStore = defineStore("messages", () => {
     }
   }
 
+  /**
+   * Apply a reaction change to a message in local state
+   * Matches both the local id and the server message_id
+   */
+  function applyMessageReaction(
+    messageId: string,
+    reaction: MessageReaction,
+    action: "add" | "remove"
+  ): void {
+    messages.value = messages.value.map((message) => {
+      if (message.id !== messageId && message.message_id !== messageId) {
+        return message;
+      }
+      return {
+        ...message,
+        reactions: applyReaction(message.reactions, reaction, action),
+      };
+    });
+  }
+
+  /**
+   * Apply an edit made elsewhere (e.g. received via WebSocket) to local state
+   * The replaced content is kept in the message's edit history
+   */
+  function applyMessageEdit(
+    messageId: string,
+    content: string,
+    editedAt: string,
+    serverHistory?: MessageRevision[]
+  ): void {
+    messages.value = messages.value.map((message) =>
+      message.id === messageId || message.message_id === messageId
+        ? applyEdit(message, content, editedAt, serverHistory)
+        : message
+    );
+  }
+
+  /**
+   * Replace a message deleted for everyone with its tombstone
+   * Matches both the local id and the server message_id
+   */
+  function applyMessageDeletion(messageId: string): void {
+    messages.value = messages.value.map((message) =>
+      message.id === messageId || message.message_id === messageId
+        ? toDeletedMessage(message)
+        : message
+    );
+  }
+
+  /**
+   * Add an emoji reaction to a message
+   * Does not toggle isLoading so reacting never blocks the chat UI
+   */
+  async function addReaction(
+    messageId: string,
+    emoji: string
+  ): Promise<ApiResponse> {
+    const authStore = useAuthStore();
+    const reaction: MessageReaction = {
+      emoji,
+      user_id: authStore.user?.id || "",
+      user_name: authStore.user?.name,
+    };
+
+    // Optimistic update, reverted if the request fails
+    applyMessageReaction(messageId, reaction, "add");
+
+    try {
+      console.log(`[useMessages] Adding reaction ${emoji} to ${messageId}`);
+      return await $api.post(`/message/${messageId}/reactions`, { emoji });
+    } catch (err: any) {
+      applyMessageReaction(messageId, reaction, "remove");
+      const errorMsg = err.message || "Failed to add reaction";
+      error.value = errorMsg;
+      if ($toast) $toast.error(errorMsg);
+      throw err;
+    }
+  }
+
+  /**
+   * Remove the current user's emoji reaction from a message
+   */
+  async function removeReaction(
+    messageId: string,
+    emoji: string
+  ): Promise<ApiResponse> {
+    const authStore = useAuthStore();
+    const reaction: MessageReaction = {
+      emoji,
+      user_id: authStore.user?.id || "",
+      user_name: authStore.user?.name,
+    };
+
+    // Optimistic update, reverted if the request fails
+    applyMessageReaction(messageId, reaction, "remove");
+
+    try {
+      console.log(
+        `[useMessages] Removing reaction ${emoji} from ${messageId}`
+      );
+      return await $api.delete(
+        `/message/${messageId}/reactions/${encodeURIComponent(emoji)}`
+      );
+    } catch (err: any) {
+      applyMessageReaction(messageId, reaction, "add");
+      const errorMsg = err.message || "Failed to remove reaction";
+      error.value = errorMsg;
+      if ($toast) $toast.error(errorMsg);
+      throw err;
+    }
+  }
+
+  /**
+   * Apply a pin change to a private conversation in local state
+   */
+  function applyPinnedMessageChange(
+    recipientId: string,
+    pin: PinnedMessage,
+    action: "pin" | "unpin"
+  ): void {
+    pinnedMessages.value = {
+      ...pinnedMessages.value,
+      [recipientId]: applyPinChange(
+        pinnedMessages.value[recipientId],
+        pin,
+        action
+      ),
+    };
+  }
+
+  /**
+   * Get pinned messages of a private conversation
+   */
+  async function getPinnedMessages(recipientId: string): Promise<ApiResponse> {
+    error.value = null;
+
+    try {
+      const response = await $api.get(
+        `/message/pinned?type=private&target_id=${recipientId}`
+      );
+
+      const pins = (response.data || [])
+        .map(normalizePinnedMessage)
+        .filter(
+          (pin: PinnedMessage | undefined): pin is PinnedMessage => !!pin
+        )
+        .sort(
+          (a: PinnedMessage, b: PinnedMessage) =>
+            new Date(b.pinned_at).getTime() - new Date(a.pinned_at).getTime()
+        );
+
+      pinnedMessages.value = { ...pinnedMessages.value, [recipientId]: pins };
+      return response;
+    } catch (err: any) {
+      // No toast here, pins are secondary to loading the conversation itself
+      error.value = err.message || "Failed to fetch pinned messages";
+      console.error(
+        `[useMessages] Error fetching pinned messages for ${recipientId}:`,
+        err
+      );
+      throw err;
+    }
+  }
+
+  /**
+   * Pin a message in a private conversation
+   */
+  async function pinMessage(
+    recipientId: string,
+    pin: PinnedMessage
+  ): Promise<ApiResponse> {
+    // Optimistic update, reverted if the request fails
+    applyPinnedMessageChange(recipientId, pin, "pin");
+
+    try {
+      return await $api.post(`/message/${pin.message_id}/pin`, {});
+    } catch (err: any) {
+      applyPinnedMessageChange(recipientId, pin, "unpin");
+      const errorMsg = err.message || "Failed to pin message";
+      error.value = errorMsg;
+      if ($toast) $toast.error(errorMsg);
+      throw err;
+    }
+  }
+
+  /**
+   * Unpin a message in a private conversation
+   */
+  async function unpinMessage(
+    recipientId: string,
+    messageId: string
+  ): Promise<ApiResponse> {
+    const existingPin = pinnedMessages.value[recipientId]?.find(
+      (pin) => pin.message_id === messageId
+    );
+
+    // Optimistic update, reverted if the request fails
+    if (existingPin) {
+      applyPinnedMessageChange(recipientId, existingPin, "unpin");
+    }
+
+    try {
+      return await $api.delete(`/message/${messageId}/pin`);
+    } catch (err: any) {
+      if (existingPin) {
+        applyPinnedMessageChange(recipientId, existingPin, "pin");
+      }
+      const errorMsg = err.message || "Failed to unpin message";
+      error.value = errorMsg;
+      if ($toast) $toast.error(errorMsg);
+      throw err;
+    }
+  }
+
   /**
    * Mark messages as read
    */
@@ -877,6 +1325,8 @@ export const useMessagesStore = defineStore("messages", () => {
 
   /**
    * Search messages in a chat by query text
+   * The chat's cached history is searched on the device first and merged
+   * with the server's results; offline, only the local results are returned
    */
   async function searchMessages(
     params: SearchMessagesParams
@@ -884,8 +1334,24 @@ export const useMessagesStore = defineStore("messages", () => {
     isLoading.value = true;
     error.value = null;
 
+    const { q, chatId, type, limit = 20, offset = 0 } = params;
+    const cacheKey = getCacheKey(
+      type === "group" ? "group" : "private",
+      chatId
+    );
+    // Local matches are all returned with the first page
+    const localResults =
+      cacheKey && offset === 0 ? await searchCachedMessages(cacheKey, q) : [];
+    const localResponse: ApiResponse = {
+      message: "Showing results saved on this device",
+      data: localResults,
+    };
+
     try {
-      const { q, chatId, type, limit = 20, offset = 0 } = params;
+      if (process.client && !navigator.onLine) {
+        return localResponse;
+      }
+
       const queryParams = new URLSearchParams({
         q,
         chatId,
@@ -897,6 +1363,51 @@ export const useMessagesStore = defineStore("messages", () => {
       const response = await $api.get(
         `/message/search?${queryParams.toString()}`
       );
+      return {
+        ...response,
+        data: mergeSearchResults(
+          localResults,
+          Array.isArray(response?.data) ? response.data : []
+        ),
+      };
+    } catch (err: any) {
+      // The device's results are still worth showing
+      if (localResults.length > 0) return localResponse;
+
+      const errorMsg = err.message || "Failed to search messages";
+      error.value = errorMsg;
+      if ($toast) $toast.error(errorMsg);
+      throw err;
+    } finally {
+      isLoading.value = false;
+    }
+  }
+
+  /**
+   * Search messages across all private chats and groups
+   * Only filters that are set are sent to the server
+   */
+  async function searchAllMessages(
+    params: GlobalSearchParams
+  ): Promise<GlobalSearchResponse> {
+    isLoading.value = true;
+    error.value = null;
+
+    try {
+      const { limit = 20, offset = 0, ...filters } = params;
+      const queryParams = new URLSearchParams({
+        limit: limit.toString(),
+        offset: offset.toString(),
+      });
+      Object.entries(filters).forEach(([key, value]) => {
+        if (value !== undefined && value !== "" && value !== false) {
+          queryParams.set(key, String(value));
+        }
+      });
+
+      const response = await $api.get(
+        `/message/search/all?${queryParams.toString()}`
+      );
       return response;
     } catch (err: any) {
       const errorMsg = err.message || "Failed to search messages";
@@ -925,6 +1436,7 @@ export const useMessagesStore = defineStore("messages", () => {
       type: params.type,
       limit: params.limit,
       before: params.before,
+      after: params.after,
     };
 
     return getMessages(unifiedParams);
@@ -1003,21 +1515,35 @@ export const useMessagesStore = defineStore("messages", () => {
     isLoading,
     error,
     messagesPagination,
+    pinnedMessages,
 
     // Actions - Unified Interface
     getMessages, // New unified function
     getMessagesLegacy, // Legacy compatibility function
 
     // Other Actions
+    getCachedMessages,
+    cacheMessages,
     getGroupMessages,
     sendMessage,
     sendGroupMessage,
+    forwardMessage,
     editMessage,
+    applyMessageEdit,
     deleteMessage,
+    applyMessageDeletion,
+    addReaction,
+    removeReaction,
+    applyMessageReaction,
+    getPinnedMessages,
+    pinMessage,
+    unpinMessage,
+    applyPinnedMessageChange,
     markMessagesAsRead,
     sendMessageWithMedia,
     uploadMedia,
     searchMessages,
+    searchAllMessages,
     getMessageHistory, // Now delegates to unified getMessages
     postMessage,
     getUnreadCount,
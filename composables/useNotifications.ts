@@ -1,4 +1,4 @@
-import { ref } from "vue";
+import { ref, watch } from "vue";
 import { useNuxtApp } from "#app";
 import { useAuthStore } from "~/composables/useAuth";
 
@@ -63,6 +63,118 @@ export interface NotificationOptions {
   order?: "asc" | "desc";
 }
 
+export interface MentionNotificationData {
+  groupId: string;
+  groupName?: string;
+  messageId: string;
+  senderId: string;
+  senderName?: string;
+  content: string;
+}
+
+export interface JoinRequestNotificationData {
+  groupId: string;
+  groupName?: string;
+  requestId: string;
+  userId: string;
+  userName?: string;
+}
+
+// Prefixes of client-side notifications that never reach the notification API
+const MENTION_NOTIFICATION_PREFIX = "mention-";
+const JOIN_REQUEST_NOTIFICATION_PREFIX = "join-request-";
+
+// Notifications created from WebSocket events (@mentions, join requests),
+// shared by every useNotifications() instance so open dropdowns update live
+const localNotifications = ref<Notification[]>([]);
+
+const isLocalNotification = (notificationId: string) =>
+  notificationId.startsWith(MENTION_NOTIFICATION_PREFIX) ||
+  notificationId.startsWith(JOIN_REQUEST_NOTIFICATION_PREFIX);
+
+const getUnreadLocalCount = () =>
+  localNotifications.value.filter((notification) => !notification.read)
+    .length;
+
+const addLocalNotification = (notification: Notification) => {
+  localNotifications.value = [
+    notification,
+    ...localNotifications.value.filter((n) => n.id !== notification.id),
+  ];
+};
+
+/**
+ * Add a high-priority notification for an @mention in a group
+ * Mentions always notify, even when the group's notifications are muted
+ */
+export const addMentionNotification = (
+  mention: MentionNotificationData
+): Notification => {
+  const authStore = useAuthStore();
+  const notificationId = `${MENTION_NOTIFICATION_PREFIX}${mention.messageId}`;
+
+  const notification: Notification = {
+    id: notificationId,
+    user_id: authStore.user?.id || "",
+    type: "mention",
+    category: "mention",
+    priority: "high",
+    title: mention.groupName
+      ? `${mention.senderName || "Someone"} mentioned you in ${
+          mention.groupName
+        }`
+      : `${mention.senderName || "Someone"} mentioned you`,
+    content: mention.content,
+    related_to: mention.groupId,
+    read: false,
+    created_at: new Date().toISOString(),
+    data: {
+      groupId: mention.groupId,
+      message_id: mention.messageId,
+      sender_id: mention.senderId,
+      sender_username: mention.senderName,
+    },
+  };
+
+  addLocalNotification(notification);
+  return notification;
+};
+
+/**
+ * Tell group owners and admins that someone asked to join
+ */
+export const addJoinRequestNotification = (
+  request: JoinRequestNotificationData
+): Notification => {
+  const authStore = useAuthStore();
+  const requester = request.userName || "Someone";
+  const title = request.groupName
+    ? `${requester} asked to join ${request.groupName}`
+    : `${requester} asked to join your group`;
+
+  const notification: Notification = {
+    id: `${JOIN_REQUEST_NOTIFICATION_PREFIX}${request.requestId}`,
+    user_id: authStore.user?.id || "",
+    type: "join_request",
+    category: "group",
+    priority: "medium",
+    title,
+    content: title,
+    related_to: request.groupId,
+    read: false,
+    created_at: new Date().toISOString(),
+    data: {
+      groupId: request.groupId,
+      request_id: request.requestId,
+      sender_id: request.userId,
+      sender_username: request.userName,
+    },
+  };
+
+  addLocalNotification(notification);
+  return notification;
+};
+
 export const useNotifications = () => {
   // State (enhanced to match React)
   const notifications = ref<Notification[]>([]);
@@ -82,6 +194,23 @@ export const useNotifications = () => {
   const nuxtApp = useNuxtApp();
   const authStore = useAuthStore();
 
+  // Local notifications are listed first, ahead of server notifications
+  const withLocalNotifications = (list: Notification[]) => [
+    ...localNotifications.value,
+    ...list.filter((notification) => !isLocalNotification(notification.id)),
+  ];
+
+  // Keep this instance in sync when local notifications arrive or are read
+  // elsewhere
+  watch(localNotifications, (local, oldLocal) => {
+    const unreadDelta =
+      local.filter((n) => !n.read).length -
+      (oldLocal || []).filter((n) => !n.read).length;
+
+    notifications.value = withLocalNotifications(notifications.value);
+    unreadCount.value = Math.max(unreadCount.value + unreadDelta, 0);
+  });
+
   // API endpoint - ensure it ends without a trailing slash
   const API_ENDPOINT = "/api/proxy/notifications";
 
@@ -267,7 +396,10 @@ export const useNotifications = () => {
       }
 
       // Update state
-      notifications.value = notificationsData;
+      notifications.value =
+        page === 1
+          ? withLocalNotifications(notificationsData)
+          : notificationsData;
       pagination.value = paginationData;
 
       return {
@@ -332,7 +464,7 @@ export const useNotifications = () => {
 
       // Handle various response formats (matching React implementation)
       if (response && typeof response.count === "number") {
-        unreadCount.value = response.count;
+        unreadCount.value = response.count + getUnreadLocalCount();
         return response;
       } else if (response && typeof response === "object") {
         // Try to find a count property with a different name
@@ -341,7 +473,7 @@ export const useNotifications = () => {
           if (typeof response[prop] === "number") {
             console.log(`[Notifications] Found count in property: ${prop}`);
             const count = response[prop];
-            unreadCount.value = count;
+            unreadCount.value = count + getUnreadLocalCount();
             return { count };
           }
         }
@@ -354,7 +486,7 @@ export const useNotifications = () => {
         return { count: unreadCount.value };
       } else if (typeof response === "number") {
         // Handle case where API returns just the number
-        unreadCount.value = response;
+        unreadCount.value = response + getUnreadLocalCount();
         return { count: response };
       } else {
         console.warn("[Notifications] Unexpected response format:", response);
@@ -379,6 +511,18 @@ export const useNotifications = () => {
       throw new Error("Invalid notification ID");
     }
 
+    // Local notifications are only read locally, the watcher updates the
+    // unread count
+    if (isLocalNotification(notificationId)) {
+      localNotifications.value = localNotifications.value.map(
+        (notification) =>
+          notification.id === notificationId
+            ? { ...notification, read: true }
+            : notification
+      );
+      return { success: true };
+    }
+
     isLoading.value = true;
     loading.value = true;
     error.value = null;
@@ -422,6 +566,10 @@ export const useNotifications = () => {
     error.value = null;
 
     try {
+      localNotifications.value = localNotifications.value.map(
+        (notification) => ({ ...notification, read: true })
+      );
+
       const response = await apiCall("/read-all", {
         method: "PUT",
         body: JSON.stringify({}),
@@ -0,0 +1,363 @@
+import { defineStore } from "pinia";
+import { ref, watch } from "vue";
+import { useNuxtApp } from "#app";
+import type { ReplyReference } from "~/utils/replyHelper";
+import { useAuthStore } from "./useAuth";
+import { useMessagesStore } from "./useMessages";
+import { useGroupsStore } from "./useGroups";
+import { eventBus, type EventTypes } from "./useEventBus";
+
+export type OutboxConversationType = "private" | "group";
+export type OutboxStatus = "queued" | "sending" | "failed";
+
+export interface OutboxMessage {
+  // temp- id shown on the optimistic bubble until the server assigns one
+  id: string;
+  // Sent with every attempt so the server never stores a retry twice
+  client_message_id: string;
+  conversation_type: OutboxConversationType;
+  conversation_id: string;
+  content: string;
+  reply_to?: ReplyReference;
+  mention_ids?: string[];
+  created_at: string;
+  status: OutboxStatus;
+  attempts: number;
+  error?: string;
+}
+
+// The outbox is stored per user so a shared browser never leaks it
+const OUTBOX_STORAGE_PREFIX = "chat_outbox_";
+const FLUSH_LOCK_NAME = "chat-outbox-flush";
+const UNREADABLE_REPLY_ERROR =
+  "The server's reply could not be read, check the chat before resending";
+
+/**
+ * Messages written in the composer wait here until the server confirms them
+ * They are sent in order through the REST API, which returns the real id,
+ * and replayed whenever the browser or the messages socket comes back online
+ * This is the only queue for chat messages; chat frames passed to the
+ * WebSocket are handed over here as well
+ */
+export const useOutboxStore = defineStore("outbox", () => {
+  // State
+  const outboxMessages = ref<OutboxMessage[]>([]);
+  const isFlushing = ref(false);
+
+  const authStore = useAuthStore();
+  const messagesStore = useMessagesStore();
+  const groupsStore = useGroupsStore();
+  const { $toast } = useNuxtApp();
+
+  let isStarted = false;
+
+  const getStorageKey = () =>
+    authStore.user?.id ? `${OUTBOX_STORAGE_PREFIX}${authStore.user.id}` : null;
+
+  /**
+   * Load the current user's outbox from localStorage
+   */
+  function loadOutbox(): void {
+    if (!process.client) return;
+
+    const storageKey = getStorageKey();
+    if (!storageKey) {
+      outboxMessages.value = [];
+      return;
+    }
+
+    try {
+      const stored = localStorage.getItem(storageKey);
+      outboxMessages.value = stored ? JSON.parse(stored) : [];
+    } catch (err) {
+      console.error("[useOutbox] Error loading outbox:", err);
+      outboxMessages.value = [];
+    }
+  }
+
+  function persistOutbox(): void {
+    if (!process.client) return;
+
+    const storageKey = getStorageKey();
+    if (!storageKey) return;
+
+    try {
+      if (outboxMessages.value.length === 0) {
+        localStorage.removeItem(storageKey);
+      } else {
+        localStorage.setItem(storageKey, JSON.stringify(outboxMessages.value));
+      }
+    } catch (err) {
+      console.error("[useOutbox] Error saving outbox:", err);
+    }
+  }
+
+  const replaceMessage = (id: string, changes: Partial<OutboxMessage>) => {
+    outboxMessages.value = outboxMessages.value.map((message) =>
+      message.id === id ? { ...message, ...changes } : message
+    );
+    persistOutbox();
+  };
+
+  const removeMessage = (id: string) => {
+    outboxMessages.value = outboxMessages.value.filter(
+      (message) => message.id !== id
+    );
+    persistOutbox();
+  };
+
+  const isOnline = () => !process.client || navigator.onLine !== false;
+
+  const createClientMessageId = (fallback: string) =>
+    typeof crypto !== "undefined" && crypto.randomUUID
+      ? crypto.randomUUID()
+      : `${authStore.user?.id}-${fallback}`;
+
+  /**
+   * Get the unsent messages of a conversation, oldest first
+   */
+  function getOutboxMessages(
+    type: OutboxConversationType,
+    conversationId: string
+  ): OutboxMessage[] {
+    return outboxMessages.value
+      .filter(
+        (message) =>
+          message.conversation_type === type &&
+          message.conversation_id === conversationId
+      )
+      .sort((a, b) => a.created_at.localeCompare(b.created_at));
+  }
+
+  /**
+   * Check whether a message id belongs to the outbox
+   */
+  function hasOutboxMessage(id: string): boolean {
+    return outboxMessages.value.some((message) => message.id === id);
+  }
+
+  /**
+   * Add a message to the outbox and try to send it right away
+   */
+  function enqueueMessage(
+    type: OutboxConversationType,
+    conversationId: string,
+    content: string,
+    options: { reply_to?: ReplyReference | null; mention_ids?: string[] } = {}
+  ): OutboxMessage {
+    const id = `temp-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
+    const message: OutboxMessage = {
+      id,
+      client_message_id: createClientMessageId(id),
+      conversation_type: type,
+      conversation_id: conversationId,
+      content,
+      reply_to: options.reply_to || undefined,
+      mention_ids: options.mention_ids?.length
+        ? options.mention_ids
+        : undefined,
+      created_at: new Date().toISOString(),
+      status: "queued",
+      attempts: 0,
+    };
+
+    outboxMessages.value = [...outboxMessages.value, message];
+    persistOutbox();
+    flushOutbox();
+    return message;
+  }
+
+  /**
+   * Queue a failed message again
+   */
+  function retryOutboxMessage(id: string): void {
+    const message = outboxMessages.value.find((m) => m.id === id);
+    if (!message || message.status !== "failed") return;
+
+    replaceMessage(id, { status: "queued", error: undefined });
+    flushOutbox();
+  }
+
+  /**
+   * Drop a message that has not been sent
+   */
+  function discardOutboxMessage(id: string): void {
+    const message = outboxMessages.value.find((m) => m.id === id);
+    if (!message || message.status === "sending") return;
+    removeMessage(id);
+  }
+
+  // Send one message; returns false when the network dropped on the way
+  async function deliverMessage(message: OutboxMessage): Promise<boolean> {
+    // Outboxes saved before idempotency keys existed get one now
+    const clientMessageId =
+      message.client_message_id || createClientMessageId(message.id);
+    replaceMessage(message.id, {
+      status: "sending",
+      attempts: message.attempts + 1,
+      client_message_id: clientMessageId,
+    });
+    // Offline attempts are expected, so only a final failure is reported
+    const options = { clientMessageId, silent: true };
+
+    try {
+      const response =
+        message.conversation_type === "group"
+          ? await groupsStore.sendGroupMessage(
+              message.conversation_id,
+              message.content,
+              "text",
+              message.reply_to,
+              message.mention_ids,
+              undefined,
+              options
+            )
+          : await messagesStore.sendMessage(
+              message.conversation_id,
+              message.content,
+              "text",
+              undefined,
+              message.reply_to,
+              options
+            );
+
+      removeMessage(message.id);
+      eventBus.emit("outbox-message-sent", {
+        tempId: message.id,
+        conversationType: message.conversation_type,
+        conversationId: message.conversation_id,
+        message: response?.data,
+      });
+      return true;
+    } catch (err: any) {
+      // fetch throws a TypeError when the request never reached the server
+      if (!isOnline() || (!err?.status && err instanceof TypeError)) {
+        replaceMessage(message.id, { status: "queued" });
+        return false;
+      }
+
+      console.error(`[useOutbox] Failed to send ${message.id}:`, err);
+      replaceMessage(message.id, {
+        status: "failed",
+        // Without a status the server answered but the reply was unreadable,
+        // so the message may well have been stored
+        error: err?.status
+          ? err.message || "Failed to send message"
+          : UNREADABLE_REPLY_ERROR,
+      });
+      if ($toast) $toast.error("A message could not be sent");
+      return true;
+    }
+  }
+
+  // Send queued messages in order; must run while holding the lock
+  async function runFlush(): Promise<void> {
+    // Another tab may have changed the outbox in the meantime
+    loadOutbox();
+
+    // Nobody else sends while we hold the lock, so these were cut off
+    // mid-request and the server may already have them
+    outboxMessages.value
+      .filter((message) => message.status === "sending")
+      .forEach((message) =>
+        replaceMessage(message.id, {
+          status: "failed",
+          error: "Sending was interrupted, check the chat before resending",
+        })
+      );
+
+    // Picks up messages queued while the flush is running as well
+    const nextQueued = () =>
+      [...outboxMessages.value]
+        .sort((a, b) => a.created_at.localeCompare(b.created_at))
+        .find((message) => message.status === "queued");
+
+    let next = nextQueued();
+    while (next && isOnline()) {
+      const reachedServer = await deliverMessage(next);
+      if (!reachedServer) break;
+      next = nextQueued();
+    }
+  }
+
+  /**
+   * Send everything that is queued
+   * Only one tab sends at a time when the Web Locks API is available
+   */
+  async function flushOutbox(): Promise<void> {
+    if (
+      !process.client ||
+      !authStore.user?.id ||
+      isFlushing.value ||
+      !isOnline()
+    ) {
+      return;
+    }
+
+    isFlushing.value = true;
+    try {
+      if (navigator.locks) {
+        await navigator.locks.request(
+          FLUSH_LOCK_NAME,
+          { ifAvailable: true },
+          async (lock) => {
+            if (lock) await runFlush();
+          }
+        );
+      } else {
+        await runFlush();
+      }
+    } catch (err) {
+      console.error("[useOutbox] Flush failed:", err);
+    } finally {
+      isFlushing.value = false;
+    }
+  }
+
+  const handleSocketConnected = (
+    socket: EventTypes["websocket-connected"]
+  ) => {
+    if (socket === "messages") flushOutbox();
+  };
+
+  /**
+   * Replay the outbox whenever the connection comes back
+   */
+  function startOutbox(): void {
+    if (!process.client || isStarted) return;
+    isStarted = true;
+
+    window.addEventListener("online", () => flushOutbox());
+    eventBus.on("websocket-connected", handleSocketConnected);
+    eventBus.on("retry-failed-message", retryOutboxMessage);
+    eventBus.on("discard-failed-message", discardOutboxMessage);
+
+    // Keep tabs in sync when another tab changes the outbox
+    window.addEventListener("storage", (event) => {
+      if (event.key && event.key === getStorageKey()) {
+        loadOutbox();
+      }
+    });
+
+    flushOutbox();
+  }
+
+  // Reload whenever the signed-in user changes
+  watch(() => authStore.user?.id, loadOutbox, { immediate: true });
+
+  return {
+    // State
+    outboxMessages,
+    isFlushing,
+
+    // Actions
+    loadOutbox,
+    getOutboxMessages,
+    hasOutboxMessage,
+    enqueueMessage,
+    retryOutboxMessage,
+    discardOutboxMessage,
+    flushOutbox,
+    startOutbox,
+  };
+});
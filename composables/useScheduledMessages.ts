@@ -0,0 +1,357 @@
+import { defineStore } from "pinia";
+import { ref, watch } from "vue";
+import { useNuxtApp } from "#app";
+import type { ReplyReference } from "~/utils/replyHelper";
+import { useAuthStore } from "./useAuth";
+import { useMessagesStore } from "./useMessages";
+import { useGroupsStore } from "./useGroups";
+import { eventBus } from "./useEventBus";
+
+export type ScheduledConversationType = "private" | "group";
+export type ScheduledMessageStatus = "scheduled" | "sending" | "failed";
+
+export interface ScheduledMessage {
+  id: string;
+  conversation_type: ScheduledConversationType;
+  conversation_id: string;
+  content: string;
+  reply_to?: ReplyReference;
+  mention_ids?: string[];
+  scheduled_at: string;
+  created_at: string;
+  status: ScheduledMessageStatus;
+  // Set when a delivery attempt starts, to detect interrupted sends
+  attempted_at?: string;
+  error?: string;
+}
+
+// Scheduled messages are stored per user so a shared browser never leaks them
+const SCHEDULED_STORAGE_PREFIX = "chat_scheduled_";
+const DISPATCH_INTERVAL_MS = 15 * 1000;
+// A send that never finished (tab closed mid-request) is reported as failed
+// instead of being retried, because the server may already have the message
+const INTERRUPTED_SEND_MS = 2 * 60 * 1000;
+const DISPATCH_LOCK_NAME = "chat-scheduled-dispatch";
+
+export const useScheduledMessagesStore = defineStore(
+  "scheduledMessages",
+  () => {
+    // State
+    const scheduledMessages = ref<ScheduledMessage[]>([]);
+    const isDispatching = ref(false);
+
+    const authStore = useAuthStore();
+    const messagesStore = useMessagesStore();
+    const groupsStore = useGroupsStore();
+    const { $toast } = useNuxtApp();
+
+    let dispatchTimer: ReturnType<typeof setInterval> | null = null;
+
+    const getStorageKey = () =>
+      authStore.user?.id
+        ? `${SCHEDULED_STORAGE_PREFIX}${authStore.user.id}`
+        : null;
+
+    /**
+     * Load the current user's scheduled messages from localStorage
+     */
+    function loadScheduledMessages(): void {
+      if (!process.client) return;
+
+      const storageKey = getStorageKey();
+      if (!storageKey) {
+        scheduledMessages.value = [];
+        return;
+      }
+
+      try {
+        const stored = localStorage.getItem(storageKey);
+        scheduledMessages.value = stored ? JSON.parse(stored) : [];
+      } catch (err) {
+        console.error("[useScheduledMessages] Error loading messages:", err);
+        scheduledMessages.value = [];
+      }
+    }
+
+    function persistScheduledMessages(): void {
+      if (!process.client) return;
+
+      const storageKey = getStorageKey();
+      if (!storageKey) return;
+
+      try {
+        if (scheduledMessages.value.length === 0) {
+          localStorage.removeItem(storageKey);
+        } else {
+          localStorage.setItem(
+            storageKey,
+            JSON.stringify(scheduledMessages.value)
+          );
+        }
+      } catch (err) {
+        console.error("[useScheduledMessages] Error saving messages:", err);
+      }
+    }
+
+    const replaceMessage = (
+      id: string,
+      changes: Partial<ScheduledMessage>
+    ): void => {
+      scheduledMessages.value = scheduledMessages.value.map((message) =>
+        message.id === id ? { ...message, ...changes } : message
+      );
+      persistScheduledMessages();
+    };
+
+    const removeMessage = (id: string): void => {
+      scheduledMessages.value = scheduledMessages.value.filter(
+        (message) => message.id !== id
+      );
+      persistScheduledMessages();
+    };
+
+    /**
+     * Get the scheduled messages of a conversation, earliest first
+     */
+    function getScheduledMessages(
+      type: ScheduledConversationType,
+      conversationId: string
+    ): ScheduledMessage[] {
+      return scheduledMessages.value
+        .filter(
+          (message) =>
+            message.conversation_type === type &&
+            message.conversation_id === conversationId
+        )
+        .sort((a, b) => a.scheduled_at.localeCompare(b.scheduled_at));
+    }
+
+    /**
+     * Queue a message for delivery at a later time
+     */
+    function scheduleMessage(
+      type: ScheduledConversationType,
+      conversationId: string,
+      content: string,
+      scheduledAt: Date,
+      options: { reply_to?: ReplyReference | null; mention_ids?: string[] } = {}
+    ): ScheduledMessage {
+      const message: ScheduledMessage = {
+        id: `scheduled-${Date.now()}-${Math.random()
+          .toString(36)
+          .substr(2, 9)}`,
+        conversation_type: type,
+        conversation_id: conversationId,
+        content,
+        reply_to: options.reply_to || undefined,
+        mention_ids: options.mention_ids?.length
+          ? options.mention_ids
+          : undefined,
+        scheduled_at: scheduledAt.toISOString(),
+        created_at: new Date().toISOString(),
+        status: "scheduled",
+      };
+
+      scheduledMessages.value = [...scheduledMessages.value, message];
+      persistScheduledMessages();
+      return message;
+    }
+
+    /**
+     * Change the text or time of a waiting message
+     * Editing a failed message queues it again
+     */
+    function updateScheduledMessage(
+      id: string,
+      changes: { content?: string; scheduled_at?: Date }
+    ): void {
+      const message = scheduledMessages.value.find((m) => m.id === id);
+      if (!message || message.status === "sending") return;
+
+      replaceMessage(id, {
+        content: changes.content ?? message.content,
+        scheduled_at: changes.scheduled_at
+          ? changes.scheduled_at.toISOString()
+          : message.scheduled_at,
+        status: "scheduled",
+        attempted_at: undefined,
+        error: undefined,
+      });
+    }
+
+    /**
+     * Drop a waiting message without sending it
+     */
+    function cancelScheduledMessage(id: string): void {
+      const message = scheduledMessages.value.find((m) => m.id === id);
+      if (!message || message.status === "sending") return;
+      removeMessage(id);
+    }
+
+    /**
+     * Deliver a waiting (or failed) message right away
+     */
+    async function sendScheduledNow(id: string): Promise<void> {
+      updateScheduledMessage(id, { scheduled_at: new Date() });
+      await dispatchDueMessages();
+    }
+
+    // Send one message through the regular stores
+    async function deliverMessage(message: ScheduledMessage): Promise<void> {
+      replaceMessage(message.id, {
+        status: "sending",
+        attempted_at: new Date().toISOString(),
+      });
+
+      try {
+        const response =
+          message.conversation_type === "group"
+            ? await groupsStore.sendGroupMessage(
+                message.conversation_id,
+                message.content,
+                "text",
+                message.reply_to,
+                message.mention_ids,
+                undefined,
+                { silent: true }
+              )
+            : await messagesStore.sendMessage(
+                message.conversation_id,
+                message.content,
+                "text",
+                undefined,
+                message.reply_to,
+                { silent: true }
+              );
+
+        removeMessage(message.id);
+        eventBus.emit("scheduled-message-sent", {
+          scheduledId: message.id,
+          conversationType: message.conversation_type,
+          conversationId: message.conversation_id,
+          content: message.content,
+          reply_to: message.reply_to,
+          message: response?.data,
+        });
+      } catch (err: any) {
+        console.error(
+          `[useScheduledMessages] Failed to send ${message.id}:`,
+          err
+        );
+        replaceMessage(message.id, {
+          status: "failed",
+          error: err.message || "Failed to send message",
+        });
+        if ($toast) $toast.error("A scheduled message could not be sent");
+      }
+    }
+
+    // Deliver everything that is due; must run while holding the lock
+    async function runDispatch(): Promise<void> {
+      // Another tab may have sent or edited messages in the meantime
+      loadScheduledMessages();
+
+      const now = Date.now();
+      for (const message of scheduledMessages.value) {
+        if (
+          message.status === "sending" &&
+          now - new Date(message.attempted_at || 0).getTime() >
+            INTERRUPTED_SEND_MS
+        ) {
+          replaceMessage(message.id, {
+            status: "failed",
+            error: "Sending was interrupted, check the chat before resending",
+          });
+        }
+      }
+
+      const due = scheduledMessages.value.filter(
+        (message) =>
+          message.status === "scheduled" &&
+          new Date(message.scheduled_at).getTime() <= now
+      );
+      for (const message of due) {
+        // It may have been cancelled or edited while earlier ones were sent
+        const current = scheduledMessages.value.find(
+          (m) => m.id === message.id
+        );
+        if (
+          !current ||
+          current.status !== "scheduled" ||
+          current.content !== message.content ||
+          current.scheduled_at !== message.scheduled_at
+        ) {
+          continue;
+        }
+        await deliverMessage(current);
+      }
+    }
+
+    /**
+     * Send all messages whose time has come
+     * Only one tab dispatches at a time when the Web Locks API is available
+     */
+    async function dispatchDueMessages(): Promise<void> {
+      if (!process.client || !authStore.user?.id || isDispatching.value) {
+        return;
+      }
+
+      isDispatching.value = true;
+      try {
+        if (navigator.locks) {
+          await navigator.locks.request(
+            DISPATCH_LOCK_NAME,
+            { ifAvailable: true },
+            async (lock) => {
+              if (lock) await runDispatch();
+            }
+          );
+        } else {
+          await runDispatch();
+        }
+      } catch (err) {
+        console.error("[useScheduledMessages] Dispatch failed:", err);
+      } finally {
+        isDispatching.value = false;
+      }
+    }
+
+    /**
+     * Start checking for due messages in the background
+     */
+    function startDispatcher(): void {
+      if (!process.client || dispatchTimer) return;
+
+      dispatchTimer = setInterval(dispatchDueMessages, DISPATCH_INTERVAL_MS);
+      dispatchDueMessages();
+
+      // Keep tabs in sync when another tab edits the queue
+      window.addEventListener("storage", (event) => {
+        if (event.key && event.key === getStorageKey()) {
+          loadScheduledMessages();
+        }
+      });
+    }
+
+    // Reload whenever the signed-in user changes
+    watch(() => authStore.user?.id, loadScheduledMessages, {
+      immediate: true,
+    });
+
+    return {
+      // State
+      scheduledMessages,
+      isDispatching,
+
+      // Actions
+      loadScheduledMessages,
+      getScheduledMessages,
+      scheduleMessage,
+      updateScheduledMessage,
+      cancelScheduledMessage,
+      sendScheduledNow,
+      dispatchDueMessages,
+      startDispatcher,
+    };
+  }
+);
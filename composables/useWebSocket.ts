@@ -2,13 +2,51 @@ import { ref, onUnmounted, computed } from "vue";
 import { defineStore } from "pinia";
 import { useAuthStore } from "./useAuth";
 import { useMessagesStore } from "./useMessages";
+import { useGroupsStore } from "./useGroups";
 import { eventBus } from "./useEventBus";
+import { useOutboxStore } from "./useOutbox";
 import { useNuxtApp, useRouter } from "#app";
 import {
   formatTimeString,
   extractValidDate,
   formatMessageTimestamp,
 } from "~/utils/timestampHelper";
+import {
+  normalizeReplyReference,
+  type ReplyReference,
+} from "~/utils/replyHelper";
+import {
+  normalizeForwardReference,
+  type ForwardReference,
+} from "~/utils/forwardHelper";
+import { normalizePinnedMessage } from "~/utils/pinHelper";
+import { normalizeRoleChange } from "~/utils/groupRoleHelper";
+import { normalizeJoinRequest } from "~/utils/joinRequestHelper";
+import {
+  describeMute,
+  isMuted,
+  normalizeMemberMute,
+  normalizeSlowMode,
+} from "~/utils/groupRestrictionHelper";
+import { normalizeGroupSettingsChange } from "~/utils/groupSettingsHelper";
+import { normalizeMentionIds } from "~/utils/mentionHelper";
+import {
+  addJoinRequestNotification,
+  addMentionNotification,
+} from "./useNotifications";
+import {
+  getConversationKey,
+  readSocketQueue,
+  updateCachedMessage,
+  writeCachedMessages,
+  writeSocketQueue,
+} from "~/utils/messageCache";
+import {
+  applyEdit,
+  normalizeEditHistory,
+  recordRevision,
+} from "~/utils/editHistoryHelper";
+import { toDeletedMessage } from "~/utils/deleteHelper";
 
 // Message types that can be sent/received via WebSocket
 export enum WebSocketMessageType {
@@ -17,8 +55,17 @@ export enum WebSocketMessageType {
   STOP_TYPING = "stop_typing", // Add missing STOP_TYPING enum value
   STATUS = "status",
   READ = "read",
+  DELIVERED = "delivered", // Messages reached the recipient's device
   UNREAD_COUNT = "unread_count", // Add new type for unread message count
   MESSAGE_REACTION = "message_reaction", // Support for message reactions
+  MESSAGE_PIN = "message_pin", // Message pinned or unpinned in a conversation
+  MESSAGE_EDIT = "message_edit", // Message content edited by its sender
+  MESSAGE_DELETE = "message_delete", // Message deleted for everyone
+  MEMBER_ROLE = "member_role", // Group member promoted, demoted or made owner
+  JOIN_REQUEST = "join_request", // A join request was sent or reviewed
+  MEMBER_MUTE = "member_mute", // Group member muted or unmuted
+  SLOW_MODE = "slow_mode", // Group slow mode interval changed
+  GROUP_SETTINGS = "group_settings", // Group info or permissions changed
   ERROR = "error",
 }
 
@@ -26,6 +73,7 @@ export enum WebSocketMessageType {
 export interface WebSocketMessage {
   type: WebSocketMessageType;
   data: any;
+  _queueId?: string;
   _timestamp?: number;
   _retryCount?: number;
 }
@@ -41,6 +89,10 @@ export interface BaseMessageData {
   created_at: string;
   updated_at: string;
   media_url?: string;
+  reply_to?: ReplyReference;
+  forwarded_from?: ForwardReference;
+  group_id?: string;
+  mention_ids?: string[];
   sender?: {
     id: string;
     name: string;
@@ -78,9 +130,111 @@ export interface UserStatusData {
   last_seen?: string;
 }
 
+// Read receipt; group receipts also say who read the messages and when
+export interface MessageReadData {
+  message_ids: string[];
+  group_id?: string;
+  user_id?: string;
+  user_name?: string;
+  read_at?: string;
+}
+
+export interface MessageReactionData {
+  message_id: string;
+  emoji: string;
+  user_id: string;
+  user_name?: string;
+  action: "add" | "remove";
+  group_id?: string;
+}
+
+export interface MessageEditData {
+  message_id: string;
+  content: string;
+  user_id: string;
+  recipient_id?: string;
+  group_id?: string;
+  edited_at?: string;
+  // Full history when the server keeps it; captured locally otherwise
+  edit_history?: any[];
+}
+
+export interface MessageDeleteData {
+  message_id: string;
+  // Sender of the message, or the group owner who removed it
+  user_id?: string;
+  recipient_id?: string;
+  group_id?: string;
+}
+
+export interface MessagePinData {
+  message_id: string;
+  action: "pin" | "unpin";
+  // User who pinned or unpinned the message
+  user_id: string;
+  recipient_id?: string;
+  group_id?: string;
+  pinned_by_name?: string;
+  pinned_at?: string;
+  message?: any;
+}
+
+export interface MemberRoleData {
+  group_id: string;
+  // Member whose role changed
+  user_id: string;
+  role: "owner" | "admin" | "member";
+  // Set when ownership was transferred
+  previous_owner_id?: string;
+  // Owner or admin who made the change
+  changed_by?: string;
+}
+
+export interface JoinRequestData {
+  id: string;
+  group_id: string;
+  group_name?: string;
+  // Member who asked to join
+  user_id: string;
+  user_name?: string;
+  status: "pending" | "approved" | "rejected";
+  created_at?: string;
+}
+
+export interface MemberMuteData {
+  group_id: string;
+  // Member who was muted or unmuted
+  user_id: string;
+  // Not set when the mute was lifted
+  muted_until?: string;
+  muted_by?: string;
+}
+
+export interface SlowModeData {
+  group_id: string;
+  // Zero when slow mode was turned off
+  slow_mode_seconds: number;
+}
+
+export interface GroupSettingsData {
+  group_id: string;
+  // Only the fields that changed are sent
+  name?: string;
+  description?: string;
+  avatar_url?: string;
+  only_admins_can_send?: boolean;
+  only_admins_can_edit_info?: boolean;
+  add_members_policy?: "all_members" | "admins";
+  updated_by?: string;
+}
+
 export interface TypingData {
   user_id: string;
-  recipient_id: string;
+  // Set for one-to-one conversations
+  recipient_id?: string;
+  // Set for group conversations
+  group_id?: string;
+  user_name?: string;
   is_typing: boolean;
 }
 
@@ -216,7 +370,7 @@ export const useWebSocket = defineStore("websocket", () => {
       setupNetworkChangeDetection();
 
       // Restore any persisted message queue
-      restoreMessageQueue();
+      await restoreMessageQueue();
 
       // Connect both WebSockets - handle if either fails
       try {
@@ -369,6 +523,9 @@ export const useWebSocket = defineStore("websocket", () => {
     // Process any queued messages
     processMessageQueue();
 
+    // Lets the outbox replay messages that were written while offline
+    eventBus.emit("websocket-connected", "messages");
+
     if ($toast && reconnectAttempts.value > 0) {
       // Only show toast for reconnections, not initial connections
     }
@@ -379,6 +536,7 @@ export const useWebSocket = defineStore("websocket", () => {
     console.log("[WebSocket Presence] Connection established");
     isPresenceConnected.value = true;
     isPresenceConnecting.value = false;
+    eventBus.emit("websocket-connected", "presence");
 
     // Try to resubscribe to any previous channels
     if (activeSubscriptions.value.length > 0) {
@@ -493,12 +651,48 @@ export const useWebSocket = defineStore("websocket", () => {
           handleMessageRead(message.data);
           break;
 
+        case WebSocketMessageType.DELIVERED:
+          handleMessageDelivered(message.data);
+          break;
+
         case WebSocketMessageType.UNREAD_COUNT:
           handleUnreadCount(message.data);
           break;
 
         case WebSocketMessageType.MESSAGE_REACTION:
-          eventBus.emit("message-reaction", message.data);
+          handleMessageReaction(message.data);
+          break;
+
+        case WebSocketMessageType.MESSAGE_EDIT:
+          handleMessageEdit(message.data);
+          break;
+
+        case WebSocketMessageType.MESSAGE_DELETE:
+          handleMessageDelete(message.data);
+          break;
+
+        case WebSocketMessageType.MESSAGE_PIN:
+          handleMessagePin(message.data);
+          break;
+
+        case WebSocketMessageType.MEMBER_ROLE:
+          handleMemberRole(message.data);
+          break;
+
+        case WebSocketMessageType.JOIN_REQUEST:
+          handleJoinRequest(message.data);
+          break;
+
+        case WebSocketMessageType.MEMBER_MUTE:
+          handleMemberMute(message.data);
+          break;
+
+        case WebSocketMessageType.SLOW_MODE:
+          handleSlowMode(message.data);
+          break;
+
+        case WebSocketMessageType.GROUP_SETTINGS:
+          handleGroupSettings(message.data);
           break;
 
         case WebSocketMessageType.ERROR:
@@ -564,6 +758,19 @@ export const useWebSocket = defineStore("websocket", () => {
 
   // Handle typing notifications
   const handleTypingNotification = (data: TypingData): void => {
+    if (data.group_id) {
+      // Our own frames are echoed to the whole group
+      if (data.user_id === authStore.user?.id) return;
+
+      eventBus.emit("group-typing-status-changed", {
+        userId: data.user_id,
+        userName: data.user_name,
+        groupId: data.group_id,
+        isTyping: data.is_typing,
+      });
+      return;
+    }
+
     console.log(
       `[WebSocket] User ${data.user_id} is ${
         data.is_typing ? "typing" : "not typing"
@@ -573,7 +780,7 @@ export const useWebSocket = defineStore("websocket", () => {
     // Emit event for components to react to typing status
     eventBus.emit("typing-status-changed", {
       userId: data.user_id,
-      recipientId: data.recipient_id,
+      recipientId: data.recipient_id || "",
       isTyping: data.is_typing,
     });
   };
@@ -835,29 +1042,11 @@ export const useWebSocket = defineStore("websocket", () => {
   // Enhanced message sending with intelligent queuing, metadata and improved error handling
   const send = (message: WebSocketMessage): void => {
     try {
-      // Add metadata for better synchronization
+      // Chat messages go through the outbox so they are sent in order and
+      // show their delivery state; the socket only carries control frames
       if (message.type === WebSocketMessageType.MESSAGE) {
-        // Use ISO string for consistent timestamp format
-        const clientTimestamp = new Date().toISOString();
-        const clientId = `client-${authStore.user?.id}-${Date.now()}`;
-
-        // Add critical metadata for synchronization and reliable message handling
-        message.data = {
-          ...message.data,
-          client_timestamp: clientTimestamp,
-          // Store raw_timestamp consistently for our utility functions
-          raw_timestamp: clientTimestamp,
-          client_id: clientId,
-          sender_device: "web-client",
-          client_send_time: Date.now(),
-        };
-
-        // Add message ID if none exists (temp ID until server assigns one)
-        if (!message.data.id) {
-          message.data.id = `msg-${Date.now()}-${Math.random()
-            .toString(36)
-            .substring(2, 9)}`;
-        }
+        handOffToOutbox(message);
+        return;
       }
 
       // Handle typing indicators more efficiently
@@ -932,6 +1121,17 @@ export const useWebSocket = defineStore("websocket", () => {
         data.sender_id = data.sender?.id || "unknown-sender";
       }
 
+      // Normalize quoted reply reference (nested object or flat reply_to_id)
+      data.reply_to = normalizeReplyReference(data);
+      data.forwarded_from = normalizeForwardReference(data);
+      data.mention_ids = normalizeMentionIds(data);
+
+      if (data.group_id) {
+        notifyIfMentioned(data);
+      }
+
+      cacheIncomingMessage(data);
+
       // Enhanced duplicate detection - check by ID and also similar content
       const existingMessage = messagesStore.messages.find(
         (m) => m.id === data.id || m.message_id === data.id
@@ -1016,9 +1216,15 @@ export const useWebSocket = defineStore("websocket", () => {
               raw_timestamp: messageTimestamp,
             });
 
+          // A changed content on a known message is an edit
+          const editHistory = existingMessage.pending
+            ? existingMessage.edit_history
+            : recordRevision(existingMessage, data.content);
+
           messagesStore.messages[idx] = {
             ...messagesStore.messages[idx],
             ...data,
+            edit_history: editHistory,
             // Keep important fields for consistency
             raw_timestamp: messageTimestamp,
             timestamp: formattedTimestamp,
@@ -1245,7 +1451,20 @@ export const useWebSocket = defineStore("websocket", () => {
   };
 
   // Process message read status update
-  const handleMessageRead = (data: { message_ids: string[] }): void => {
+  const handleMessageRead = (data: MessageReadData): void => {
+    // Group receipts are tracked per reader for "Seen by"
+    if (data.group_id) {
+      if (data.user_id && data.message_ids) {
+        const groupsStore = useGroupsStore();
+        groupsStore.applyGroupReadReceipt(data.group_id, data.message_ids, {
+          user_id: data.user_id,
+          user_name: data.user_name,
+          read_at: data.read_at || new Date().toISOString(),
+        });
+      }
+      return;
+    }
+
     // Update read status for these messages
     if (messagesStore.messages && data.message_ids) {
       messagesStore.messages = messagesStore.messages.map((message) => {
@@ -1254,9 +1473,296 @@ export const useWebSocket = defineStore("websocket", () => {
         }
         return message;
       });
+      eventBus.emit("message-read", data.message_ids);
+    }
+  };
+
+  // Process messages that reached the recipient's device
+  const handleMessageDelivered = (data: { message_ids: string[] }): void => {
+    if (messagesStore.messages && data.message_ids) {
+      messagesStore.messages = messagesStore.messages.map((message) => {
+        if (data.message_ids.includes(message.id)) {
+          return { ...message, delivered: true };
+        }
+        return message;
+      });
+      eventBus.emit("message-delivered", data.message_ids);
+    }
+  };
+
+  // Process a reaction added or removed by any participant
+  const handleMessageReaction = (data: MessageReactionData): void => {
+    if (!data || !data.message_id || !data.emoji) {
+      console.warn("[WebSocket] Invalid reaction data received:", data);
+      return;
+    }
+
+    const reaction = {
+      emoji: data.emoji,
+      user_id: data.user_id,
+      user_name: data.user_name,
+    };
+    const action = data.action === "remove" ? "remove" : "add";
+
+    if (data.group_id) {
+      useGroupsStore().applyGroupMessageReaction(
+        data.message_id,
+        reaction,
+        action
+      );
+    } else {
+      messagesStore.applyMessageReaction(data.message_id, reaction, action);
+    }
+
+    // Components keeping their own message lists update from this event
+    eventBus.emit("message-reaction", {
+      messageId: data.message_id,
+      emoji: data.emoji,
+      userId: data.user_id,
+      userName: data.user_name,
+      action,
+      groupId: data.group_id,
+    });
+  };
+
+  // Process an edit made by the sender of a message
+  const handleMessageEdit = (data: MessageEditData): void => {
+    if (!data || !data.message_id || typeof data.content !== "string") {
+      console.warn("[WebSocket] Invalid edit data received:", data);
+      return;
+    }
+
+    const editedAt = data.edited_at || new Date().toISOString();
+    const serverHistory = normalizeEditHistory(data);
+
+    if (data.group_id) {
+      useGroupsStore().applyGroupMessageEdit(
+        data.message_id,
+        data.content,
+        editedAt,
+        serverHistory
+      );
+    } else {
+      messagesStore.applyMessageEdit(
+        data.message_id,
+        data.content,
+        editedAt,
+        serverHistory
+      );
+    }
+    if (authStore.user?.id) {
+      updateCachedMessage(authStore.user.id, data.message_id, (message) =>
+        applyEdit(message, data.content, editedAt, serverHistory)
+      );
+    }
+
+    // Components keeping their own message lists update from this event
+    eventBus.emit("message-edited", {
+      messageId: data.message_id,
+      content: data.content,
+      editedAt,
+      editHistory: serverHistory,
+      groupId: data.group_id,
+    });
+  };
+
+  // Replace a message deleted for everyone with its tombstone
+  const handleMessageDelete = (data: MessageDeleteData): void => {
+    if (!data || !data.message_id) {
+      console.warn("[WebSocket] Invalid delete data received:", data);
+      return;
+    }
+
+    if (data.group_id) {
+      useGroupsStore().applyGroupMessageDeletion(data.message_id);
+    } else {
+      messagesStore.applyMessageDeletion(data.message_id);
+    }
+    if (authStore.user?.id) {
+      updateCachedMessage(authStore.user.id, data.message_id, toDeletedMessage);
+    }
+
+    // Components keeping their own message lists update from this event
+    eventBus.emit("message-deleted", {
+      messageId: data.message_id,
+      groupId: data.group_id,
+    });
+  };
+
+  // Raise a high-priority notification when a group message mentions us
+  // Mentions bypass group muting, so this runs for every group message
+  const notifyIfMentioned = (data: NewMessageData): void => {
+    const userId = authStore.user?.id;
+    if (
+      !userId ||
+      !data.group_id ||
+      data.sender_id === userId ||
+      !data.mention_ids?.includes(userId)
+    ) {
+      return;
+    }
+
+    const group = useGroupsStore().groups.find((g) => g.id === data.group_id);
+    const notification = addMentionNotification({
+      groupId: data.group_id,
+      groupName: group?.name,
+      messageId: data.id,
+      senderId: data.sender_id,
+      senderName: data.sender?.name,
+      content: data.content,
+    });
+
+    if ($toast) {
+      $toast.info(notification.title || "You were mentioned");
+    }
+  };
+
+  // Store an incoming message in its conversation's offline cache, so the
+  // conversation is up to date even if it is not open
+  const cacheIncomingMessage = (data: NewMessageData): void => {
+    const userId = authStore.user?.id;
+    // Locally generated ids would never match the server's copy
+    if (!userId || data.id.startsWith("ws-")) return;
+
+    const recipientId = data.recipient_id || (data as any).receiver_id;
+    const otherUserId = data.sender_id === userId ? recipientId : data.sender_id;
+    const targetId = data.group_id || otherUserId;
+    if (!targetId) return;
+
+    const conversationKey = getConversationKey(
+      userId,
+      data.group_id ? "group" : "private",
+      targetId
+    );
+    writeCachedMessages(conversationKey, [{ ...data }]);
+  };
+
+  // Process a message pinned or unpinned by any participant
+  const handleMessagePin = (data: MessagePinData): void => {
+    const pin = normalizePinnedMessage(data);
+    if (!pin) {
+      console.warn("[WebSocket] Invalid pin data received:", data);
+      return;
+    }
+
+    pin.pinned_by = pin.pinned_by || data.user_id;
+    const action = data.action === "unpin" ? "unpin" : "pin";
+
+    if (data.group_id) {
+      useGroupsStore().applyPinnedMessageChange(data.group_id, pin, action);
+      return;
+    }
+
+    // Private pins are keyed by the other participant of the conversation
+    const conversationId =
+      data.user_id === authStore.user?.id ? data.recipient_id : data.user_id;
+    if (conversationId) {
+      messagesStore.applyPinnedMessageChange(conversationId, pin, action);
+    }
+  };
+
+  // Process a role change made by a group owner or admin
+  const handleMemberRole = (data: MemberRoleData): void => {
+    const change = normalizeRoleChange(data);
+    if (!data.group_id || !change) {
+      console.warn("[WebSocket] Invalid member role data received:", data);
+      return;
+    }
+
+    useGroupsStore().applyMemberRoleChange(data.group_id, change);
+  };
+
+  // Process a join request sent to admins, or the answer sent to the
+  // requester
+  const handleJoinRequest = (data: JoinRequestData): void => {
+    const request = normalizeJoinRequest(data);
+    if (!request) {
+      console.warn("[WebSocket] Invalid join request data received:", data);
+      return;
+    }
+
+    const groupsStore = useGroupsStore();
+    groupsStore.applyJoinRequestUpdate(request);
+
+    const groupName =
+      data.group_name ||
+      groupsStore.groups.find((g) => g.id === request.group_id)?.name;
+
+    if (request.user_id === authStore.user?.id) {
+      const target = groupName || "the group";
+      if (request.status === "approved") {
+        // The group appears in the list once approved
+        groupsStore.getGroups().catch((error) => {
+          console.error("[WebSocket] Failed to refresh groups:", error);
+        });
+        if ($toast) {
+          $toast.success(`Your request to join ${target} was approved`);
+        }
+      } else if (request.status === "rejected" && $toast) {
+        $toast.info(`Your request to join ${target} was declined`);
+      }
+      return;
+    }
+
+    if (request.status === "pending") {
+      const notification = addJoinRequestNotification({
+        groupId: request.group_id,
+        groupName,
+        requestId: request.id,
+        userId: request.user_id,
+        userName: request.user_name,
+      });
+      if ($toast) {
+        $toast.info(notification.title || "New join request");
+      }
+    }
+  };
+
+  // Process a member mute set or lifted by a group owner or admin
+  const handleMemberMute = (data: MemberMuteData): void => {
+    const mute = normalizeMemberMute(data);
+    if (!data.group_id || !mute) {
+      console.warn("[WebSocket] Invalid member mute data received:", data);
+      return;
+    }
+
+    useGroupsStore().applyMemberMute(data.group_id, mute);
+
+    if (mute.user_id === authStore.user?.id && $toast) {
+      if (isMuted(mute.muted_until)) {
+        $toast.warning(describeMute(mute.muted_until as string));
+      } else {
+        $toast.info("You can send messages again");
+      }
     }
   };
 
+  // Process a change of a group's slow mode interval
+  const handleSlowMode = (data: SlowModeData): void => {
+    if (!data.group_id) {
+      console.warn("[WebSocket] Invalid slow mode data received:", data);
+      return;
+    }
+
+    useGroupsStore().applySlowMode(
+      data.group_id,
+      normalizeSlowMode(data.slow_mode_seconds)
+    );
+  };
+
+  // Process a change to a group's info or permissions
+  const handleGroupSettings = (data: GroupSettingsData): void => {
+    if (!data.group_id) {
+      console.warn("[WebSocket] Invalid group settings data received:", data);
+      return;
+    }
+
+    useGroupsStore().applyGroupSettings(
+      data.group_id,
+      normalizeGroupSettingsChange(data)
+    );
+  };
+
   // Send typing indicator
   const sendTypingStatus = (recipientId: string, isTyping: boolean): void => {
     if (!authStore.user) return;
@@ -1273,6 +1779,23 @@ export const useWebSocket = defineStore("websocket", () => {
     });
   };
 
+  // Send typing indicator to every member of a group
+  const sendGroupTypingStatus = (groupId: string, isTyping: boolean): void => {
+    if (!authStore.user) return;
+
+    send({
+      type: isTyping
+        ? WebSocketMessageType.TYPING
+        : WebSocketMessageType.STOP_TYPING,
+      data: {
+        user_id: authStore.user.id,
+        user_name: authStore.user.name,
+        group_id: groupId,
+        is_typing: isTyping,
+      },
+    });
+  };
+
   // Enhanced disconnect with proper cleanup
   const disconnect = (): void => {
     console.log("[WebSocket] Initiating graceful disconnect");
@@ -1490,30 +2013,25 @@ export const useWebSocket = defineStore("websocket", () => {
     }
   };
 
+  // Hand a chat message frame over to the outbox
+  const handOffToOutbox = (message: WebSocketMessage): void => {
+    const data = message.data || {};
+    const conversationId = data.group_id || data.recipient_id;
+    if (!data.content || !conversationId) return;
+
+    useOutboxStore().enqueueMessage(
+      data.group_id ? "group" : "private",
+      conversationId,
+      data.content,
+      { reply_to: data.reply_to, mention_ids: data.mention_ids }
+    );
+  };
+
   // Enhanced message queuing with persistence and duplicate prevention
   const addToQueue = (message: WebSocketMessage): void => {
     try {
       // Check for duplicates in queue first
       const isDuplicate = messageQueue.value.some((queuedMessage) => {
-        // For regular messages, check content match
-        if (
-          message.type === WebSocketMessageType.MESSAGE &&
-          queuedMessage.type === WebSocketMessageType.MESSAGE
-        ) {
-          const queuedContent = queuedMessage.data?.content?.trim?.();
-          const newContent = message.data?.content?.trim?.();
-
-          if (queuedContent && newContent && queuedContent === newContent) {
-            // If recipient and sender match, it's a duplicate
-            if (
-              queuedMessage.data?.recipient_id === message.data?.recipient_id &&
-              queuedMessage.data?.sender_id === message.data?.sender_id
-            ) {
-              return true;
-            }
-          }
-        }
-
         // For typing indicators, check if it's a duplicate for the same user/recipient
         if (
           (message.type === WebSocketMessageType.TYPING ||
@@ -1522,7 +2040,8 @@ export const useWebSocket = defineStore("websocket", () => {
         ) {
           return (
             message.data?.user_id === queuedMessage.data?.user_id &&
-            message.data?.recipient_id === queuedMessage.data?.recipient_id
+            message.data?.recipient_id === queuedMessage.data?.recipient_id &&
+            message.data?.group_id === queuedMessage.data?.group_id
           );
         }
 
@@ -1553,15 +2072,8 @@ export const useWebSocket = defineStore("websocket", () => {
 
       messageQueue.value.push(messageWithId);
 
-      // Persist to sessionStorage for recovery after page refresh
-      try {
-        sessionStorage.setItem(
-          "ws_message_queue",
-          JSON.stringify(messageQueue.value)
-        );
-      } catch (error) {
-        console.warn("[WebSocket] Failed to persist message queue:", error);
-      }
+      // Persist to IndexedDB for recovery after a refresh or tab close
+      persistMessageQueue();
     } catch (error) {
       console.error("[WebSocket] Error adding message to queue:", error);
       // Still try to add the message without metadata in case of error
@@ -1572,34 +2084,49 @@ export const useWebSocket = defineStore("websocket", () => {
     }
   };
 
+  // Save the current queue; failures are logged by the cache
+  const persistMessageQueue = (): void => {
+    if (!authStore.user?.id) return;
+    writeSocketQueue(authStore.user.id, messageQueue.value);
+  };
+
   // Restore message queue from persistence
-  const restoreMessageQueue = (): void => {
+  const restoreMessageQueue = async (): Promise<void> => {
     try {
-      const savedQueue = sessionStorage.getItem("ws_message_queue");
-      if (savedQueue) {
-        const parsedQueue = JSON.parse(savedQueue);
+      if (!authStore.user?.id) return;
+      const savedQueue = await readSocketQueue(authStore.user.id);
+      if (savedQueue.length > 0) {
         // Only restore messages from the last 5 minutes
         const fiveMinutesAgo = Date.now() - 300000;
-        messageQueue.value = parsedQueue.filter(
+        const recent = savedQueue.filter(
           (msg: any) => msg._timestamp && msg._timestamp > fiveMinutesAgo
         );
+        // Chat messages queued by older versions move to the outbox
+        recent
+          .filter((msg: any) => msg.type === WebSocketMessageType.MESSAGE)
+          .forEach(handOffToOutbox);
+        const restored = recent.filter(
+          (msg: any) => msg.type !== WebSocketMessageType.MESSAGE
+        );
+        // Messages queued while the queue was loading are kept as well
+        const queuedIds = new Set(messageQueue.value.map((m) => m._queueId));
+        messageQueue.value = [
+          ...restored.filter((msg: any) => !queuedIds.has(msg._queueId)),
+          ...messageQueue.value,
+        ];
         console.log(
-          `[WebSocket] Restored ${messageQueue.value.length} messages from queue`
+          `[WebSocket] Restored ${restored.length} messages from queue`
         );
       }
     } catch (error) {
       console.warn("[WebSocket] Failed to restore message queue:", error);
-      messageQueue.value = [];
     }
   };
 
   // Clear persisted queue
   const clearPersistedQueue = (): void => {
-    try {
-      sessionStorage.removeItem("ws_message_queue");
-    } catch (error) {
-      console.warn("[WebSocket] Failed to clear persisted queue:", error);
-    }
+    if (!authStore.user?.id) return;
+    writeSocketQueue(authStore.user.id, []);
   };
 
   // Process queued messages with enhanced retry logic and error handling
@@ -1625,7 +2152,7 @@ export const useWebSocket = defineStore("websocket", () => {
 
     // Process messages with improved handling
     const currentTime = Date.now();
-    const processPromises = messagesToProcess.map(async (message) => {
+    const processQueuedMessage = async (message: WebSocketMessage) => {
       try {
         // Check message age - drop very old messages that are no longer relevant
         const messageTime = (message as any)._timestamp || 0;
@@ -1663,10 +2190,6 @@ export const useWebSocket = defineStore("websocket", () => {
           );
           messageRetryCount.value.delete(queueId);
 
-          // For chat messages, notify user that message failed to send
-          if (message.type === WebSocketMessageType.MESSAGE && $toast) {
-            $toast.error("Message couldn't be delivered. Please try again.");
-          }
           return;
         }
 
@@ -1706,24 +2229,20 @@ export const useWebSocket = defineStore("websocket", () => {
         // Re-add to queue for later retry
         addToQueue(message);
       }
-    });
+    };
 
-    // Run all message processing
-    Promise.all(processPromises)
+    // Replay one message at a time so a backoff delay never reorders them
+    const processInOrder = async () => {
+      for (const message of messagesToProcess) {
+        await processQueuedMessage(message);
+      }
+    };
+
+    processInOrder()
       .then(() => {
         // Update persisted queue if any messages were re-added
         if (messageQueue.value.length > 0) {
-          try {
-            sessionStorage.setItem(
-              "ws_message_queue",
-              JSON.stringify(messageQueue.value)
-            );
-          } catch (error) {
-            console.warn(
-              "[WebSocket] Failed to persist updated message queue:",
-              error
-            );
-          }
+          persistMessageQueue();
         } else {
           // Clear persisted queue if we processed everything
           clearPersistedQueue();
@@ -1966,6 +2485,7 @@ export const useWebSocket = defineStore("websocket", () => {
     clear,
     send,
     sendTypingStatus,
+    sendGroupTypingStatus,
 
     // Subscription Management
     subscribeToUnreadCounts,
@@ -43,6 +43,10 @@ export default defineNuxtConfig({
         "fa:user-plus",
         "fa:music",
         "fa:camera",
+        "fa:reply",
+        "fa:mail-forward",
+        "fa:thumb-tack",
+        "fa:history",
 
         // Core Lucide icons (more reliable for file types and other icons)
         "lucide:message-square",
@@ -66,6 +70,34 @@ export default defineNuxtConfig({
         "lucide:code",
         "lucide:play",
         "lucide:video",
+        "lucide:reply",
+        "lucide:smile-plus",
+        "lucide:forward",
+        "lucide:pin",
+        "lucide:pin-off",
+        "lucide:at-sign",
+        "lucide:bold",
+        "lucide:italic",
+        "lucide:strikethrough",
+        "lucide:square-code",
+        "lucide:link",
+        "lucide:list",
+        "lucide:list-ordered",
+        "lucide:text-quote",
+        "lucide:mic",
+        "lucide:pause",
+        "lucide:calendar-clock",
+        "lucide:rotate-cw",
+        "lucide:history",
+        "lucide:eye-off",
+        "lucide:calendar",
+        "lucide:arrow-down",
+        "lucide:shield",
+        "lucide:shield-off",
+        "lucide:crown",
+        "lucide:copy",
+        "lucide:volume-x",
+        "lucide:volume-2",
 
         // MDI icons
         "mdi:account-group",
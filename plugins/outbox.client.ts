@@ -0,0 +1,10 @@
+import { defineNuxtPlugin } from "#app";
+import { useOutboxStore } from "~/composables/useOutbox";
+
+// Unsent messages are replayed app-wide, not only while their conversation
+// is open
+export default defineNuxtPlugin((nuxtApp) => {
+  nuxtApp.hook("app:mounted", () => {
+    useOutboxStore().startOutbox();
+  });
+});
@@ -0,0 +1,10 @@
+import { defineNuxtPlugin } from "#app";
+import { useScheduledMessagesStore } from "~/composables/useScheduledMessages";
+
+// Scheduled messages are dispatched by the browser, so the dispatcher runs
+// app-wide instead of only while the conversation is open
+export default defineNuxtPlugin((nuxtApp) => {
+  nuxtApp.hook("app:mounted", () => {
+    useScheduledMessagesStore().startDispatcher();
+  });
+});
@@ -1,7 +1,18 @@
+import { h } from "vue";
 import { toast } from "vue3-toastify";
-import type { ToastOptions } from "vue3-toastify";
+import type { ToastContentProps, ToastOptions } from "vue3-toastify";
 import "vue3-toastify/dist/index.css";
 
+export interface UndoToastHandlers {
+  // Called when the user clicks "Undo" before the toast closes
+  onUndo: () => void;
+  // Called when the toast closes without being undone
+  onExpire?: () => void;
+}
+
+// How long the user has to undo an action
+export const UNDO_TOAST_DURATION_MS = 5000;
+
 export default defineNuxtPlugin(() => {
   // Default toast options that work in both client and server environments
   const defaultOptions: ToastOptions = {
@@ -42,6 +53,47 @@ export default defineNuxtPlugin(() => {
           }
           console.warn(`[Toast] Warning (SSR): ${message}`);
         },
+        undo: (
+          message: string,
+          handlers: UndoToastHandlers,
+          options?: ToastOptions
+        ) => {
+          // Without a toast to undo from, the action goes through right away
+          if (!process.client) {
+            handlers.onExpire?.();
+            return;
+          }
+
+          let isUndone = false;
+          return toast.info(
+            ({ closeToast }: ToastContentProps) =>
+              h("div", { class: "flex items-center justify-between" }, [
+                h("span", message),
+                h(
+                  "button",
+                  {
+                    type: "button",
+                    class: "ml-3 font-semibold text-blue-600 hover:underline",
+                    onClick: (event: MouseEvent) => {
+                      isUndone = true;
+                      handlers.onUndo();
+                      closeToast?.(event);
+                    },
+                  },
+                  "Undo"
+                ),
+              ]),
+            {
+              ...defaultOptions,
+              autoClose: UNDO_TOAST_DURATION_MS,
+              closeOnClick: false,
+              ...options,
+              onClose: () => {
+                if (!isUndone) handlers.onExpire?.();
+              },
+            }
+          );
+        },
       },
     },
   };
@@ -0,0 +1,362 @@
+import {
+  defineEventHandler,
+  getQuery,
+  setHeader,
+  createError,
+  type H3Event,
+} from "h3";
+import { lookup as dnsLookup } from "node:dns";
+import { isIP, type LookupFunction } from "node:net";
+import http from "node:http";
+import https from "node:https";
+
+// Open Graph / Twitter card unfurling for link previews in chat bubbles
+// Only public http(s) hosts are fetched; every resolved address is checked
+// at connect time, so DNS rebinding cannot reach internal services
+
+interface LinkPreview {
+  url: string;
+  title?: string;
+  description?: string;
+  image?: string;
+  siteName?: string;
+}
+
+interface CacheEntry {
+  preview: LinkPreview | null;
+  expiresAt: number;
+}
+
+const FETCH_TIMEOUT_MS = 5000;
+const MAX_BODY_BYTES = 512 * 1024; // Meta tags live in <head>, 512KB is plenty
+const MAX_REDIRECTS = 3;
+const CACHE_TTL_MS = 60 * 60 * 1000; // 1 hour for successful previews
+const FAILURE_CACHE_TTL_MS = 10 * 60 * 1000; // 10 minutes for failures
+const MAX_CACHE_ENTRIES = 500;
+const MAX_TEXT_LENGTH = 300;
+
+const previewCache = new Map<string, CacheEntry>();
+
+// Check whether an IPv4 address is private, loopback, link-local or reserved
+const isBlockedIPv4 = (address: string): boolean => {
+  const [a, b] = address.split(".").map(Number);
+  return (
+    a === 0 || // "This" network
+    a === 10 || // Private
+    a === 127 || // Loopback
+    (a === 100 && b >= 64 && b <= 127) || // Carrier-grade NAT
+    (a === 169 && b === 254) || // Link-local (cloud metadata)
+    (a === 172 && b >= 16 && b <= 31) || // Private
+    (a === 192 && b === 0) || // IETF protocol assignments
+    (a === 192 && b === 168) || // Private
+    (a === 198 && (b === 18 || b === 19)) || // Benchmarking
+    a >= 224 // Multicast and reserved
+  );
+};
+
+// Check whether an IPv6 address is loopback, link-local, unique-local etc.
+const isBlockedIPv6 = (address: string): boolean => {
+  const normalized = address.toLowerCase();
+
+  // IPv4-mapped addresses (::ffff:10.0.0.1) follow the IPv4 rules
+  const mapped = normalized.match(/^::ffff:(\d+\.\d+\.\d+\.\d+)$/);
+  if (mapped) return isBlockedIPv4(mapped[1]);
+
+  return (
+    normalized === "::" ||
+    normalized === "::1" ||
+    normalized.startsWith("::ffff:") || // Mapped addresses in hex form
+    normalized.startsWith("64:ff9b:") || // NAT64, wraps an IPv4 address
+    normalized.startsWith("2002:") || // 6to4, wraps an IPv4 address
+    normalized.startsWith("fc") || // Unique local
+    normalized.startsWith("fd") || // Unique local
+    /^fe[89ab]/.test(normalized) || // Link-local
+    normalized.startsWith("ff") // Multicast
+  );
+};
+
+const isBlockedAddress = (address: string): boolean => {
+  const version = isIP(address);
+  if (version === 4) return isBlockedIPv4(address);
+  if (version === 6) return isBlockedIPv6(address);
+  return true;
+};
+
+// DNS lookup that refuses to connect to blocked addresses
+const safeLookup: LookupFunction = (hostname, options, callback) => {
+  dnsLookup(hostname, { ...options, all: true }, (error, addresses) => {
+    if (error) return callback(error, "", 0);
+
+    const list = addresses as unknown as { address: string; family: number }[];
+    const blocked = list.find((entry) => isBlockedAddress(entry.address));
+    if (list.length === 0 || blocked) {
+      return callback(
+        new Error(`Blocked address for host ${hostname}`),
+        "",
+        0
+      );
+    }
+
+    if (options.all) {
+      (callback as any)(null, list);
+    } else {
+      callback(null, list[0].address, list[0].family);
+    }
+  });
+};
+
+// Validate a URL before fetching it (protocol, credentials, IP literals)
+const validateTargetUrl = (rawUrl: string): URL | null => {
+  let target: URL;
+  try {
+    target = new URL(rawUrl);
+  } catch {
+    return null;
+  }
+
+  if (target.protocol !== "http:" && target.protocol !== "https:") {
+    return null;
+  }
+  if (target.username || target.password) return null;
+
+  // IP literals skip DNS lookup, so they are checked here
+  const hostname = target.hostname.replace(/^\[|\]$/g, "");
+  if (hostname === "localhost" || hostname.endsWith(".localhost")) {
+    return null;
+  }
+  if (isIP(hostname) && isBlockedAddress(hostname)) return null;
+
+  return target;
+};
+
+interface FetchedPage {
+  url: string;
+  html: string;
+}
+
+// Fetch the start of an HTML page, following a few redirects
+const fetchHtml = (target: URL, redirectsLeft = MAX_REDIRECTS) =>
+  new Promise<FetchedPage | null>((resolve, reject) => {
+    const client = target.protocol === "https:" ? https : http;
+
+    const request = client.get(
+      target,
+      {
+        lookup: safeLookup,
+        timeout: FETCH_TIMEOUT_MS,
+        headers: {
+          "User-Agent": "Mozilla/5.0 (compatible; ChatLinkPreview/1.0)",
+          Accept: "text/html,application/xhtml+xml",
+        },
+      },
+      (response) => {
+        const status = response.statusCode || 0;
+
+        if (status >= 300 && status < 400 && response.headers.location) {
+          response.destroy();
+
+          // A malformed Location header is treated like a blocked target
+          let next: URL | null;
+          try {
+            next = validateTargetUrl(
+              new URL(response.headers.location, target).toString()
+            );
+          } catch {
+            next = null;
+          }
+          if (!next || redirectsLeft <= 0) return resolve(null);
+          return fetchHtml(next, redirectsLeft - 1).then(resolve, reject);
+        }
+
+        const contentType = response.headers["content-type"] || "";
+        if (status !== 200 || !contentType.includes("html")) {
+          response.resume();
+          return resolve(null);
+        }
+
+        const chunks: Buffer[] = [];
+        let size = 0;
+        // End of the data read so far, for a closing tag split across chunks
+        let tail = Buffer.alloc(0);
+
+        const finish = () => {
+          resolve({
+            url: target.toString(),
+            html: Buffer.concat(chunks).toString("utf8"),
+          });
+        };
+
+        response.on("data", (chunk: Buffer) => {
+          chunks.push(chunk);
+          size += chunk.length;
+
+          const seam = Buffer.concat([tail, chunk]);
+          tail = seam.subarray(-("</head>".length - 1));
+
+          // Stop reading once the head is complete or the limit is hit
+          if (size >= MAX_BODY_BYTES || seam.includes("</head>")) {
+            response.destroy();
+            finish();
+          }
+        });
+        response.on("end", finish);
+        response.on("error", reject);
+      }
+    );
+
+    // Hard deadline for the whole request, not just socket inactivity
+    const deadline = setTimeout(() => {
+      request.destroy(new Error("Link preview request timed out"));
+    }, FETCH_TIMEOUT_MS);
+
+    request.on("close", () => clearTimeout(deadline));
+    request.on("timeout", () => {
+      request.destroy(new Error("Link preview request timed out"));
+    });
+    request.on("error", reject);
+  });
+
+const decodeEntities = (text: string): string =>
+  text
+    .replace(/&#(\d+);/g, (_, code) => String.fromCodePoint(Number(code)))
+    .replace(/&#x([0-9a-f]+);/gi, (_, code) =>
+      String.fromCodePoint(parseInt(code, 16))
+    )
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;|&apos;/g, "'")
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&nbsp;/g, " ")
+    .replace(/&amp;/g, "&");
+
+const cleanText = (text?: string): string | undefined => {
+  if (!text) return undefined;
+  const cleaned = decodeEntities(text).replace(/\s+/g, " ").trim();
+  if (!cleaned) return undefined;
+  return cleaned.length > MAX_TEXT_LENGTH
+    ? `${cleaned.slice(0, MAX_TEXT_LENGTH - 1)}…`
+    : cleaned;
+};
+
+// Collect <meta property|name="..." content="..."> pairs from the page
+const parseMetaTags = (html: string): Record<string, string> => {
+  const meta: Record<string, string> = {};
+
+  for (const [tag] of html.matchAll(/<meta\s[^>]*>/gi)) {
+    const attributes: Record<string, string> = {};
+    for (const match of tag.matchAll(
+      /([a-z:-]+)\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s"'>]+))/gi
+    )) {
+      attributes[match[1].toLowerCase()] = match[2] ?? match[3] ?? match[4];
+    }
+
+    const key = (attributes.property || attributes.name || "").toLowerCase();
+    if (key && attributes.content && !(key in meta)) {
+      meta[key] = attributes.content;
+    }
+  }
+
+  return meta;
+};
+
+const buildPreview = (page: FetchedPage): LinkPreview | null => {
+  const meta = parseMetaTags(page.html);
+  const titleTag = page.html.match(/<title[^>]*>([^<]*)<\/title>/i)?.[1];
+
+  const rawImage =
+    meta["og:image"] ||
+    meta["og:image:url"] ||
+    meta["twitter:image"] ||
+    meta["twitter:image:src"];
+
+  // Only absolute http(s) images are returned to the client
+  let image: string | undefined;
+  if (rawImage) {
+    try {
+      const imageUrl = new URL(decodeEntities(rawImage), page.url);
+      if (imageUrl.protocol === "http:" || imageUrl.protocol === "https:") {
+        image = imageUrl.toString();
+      }
+    } catch {
+      image = undefined;
+    }
+  }
+
+  const preview: LinkPreview = {
+    url: page.url,
+    title: cleanText(meta["og:title"] || meta["twitter:title"] || titleTag),
+    description: cleanText(
+      meta["og:description"] ||
+        meta["twitter:description"] ||
+        meta["description"]
+    ),
+    image,
+    siteName: cleanText(meta["og:site_name"]) || new URL(page.url).hostname,
+  };
+
+  return preview.title || preview.description || preview.image
+    ? preview
+    : null;
+};
+
+const cachePreview = (
+  url: string,
+  preview: LinkPreview | null
+): CacheEntry => {
+  // Map keeps insertion order, so the first key is the oldest entry
+  if (previewCache.size >= MAX_CACHE_ENTRIES) {
+    const oldestKey = previewCache.keys().next().value;
+    if (oldestKey) previewCache.delete(oldestKey);
+  }
+
+  const entry = {
+    preview,
+    expiresAt:
+      Date.now() + (preview ? CACHE_TTL_MS : FAILURE_CACHE_TTL_MS),
+  };
+  previewCache.set(url, entry);
+  return entry;
+};
+
+// Let the browser keep a preview exactly as long as the server cache does
+const setCacheHeader = (event: H3Event, entry: CacheEntry) => {
+  const maxAge = Math.max(
+    0,
+    Math.floor((entry.expiresAt - Date.now()) / 1000)
+  );
+  setHeader(event, "Cache-Control", `private, max-age=${maxAge}`);
+};
+
+export default defineEventHandler(async (event) => {
+  const { url } = getQuery(event);
+
+  if (typeof url !== "string" || url.length > 2048) {
+    throw createError({ statusCode: 400, statusMessage: "Invalid url" });
+  }
+
+  const target = validateTargetUrl(url);
+  if (!target) {
+    throw createError({ statusCode: 400, statusMessage: "URL not allowed" });
+  }
+
+  const cacheKey = target.toString();
+  const cached = previewCache.get(cacheKey);
+  if (cached && cached.expiresAt > Date.now()) {
+    setCacheHeader(event, cached);
+    return { success: true, data: cached.preview };
+  }
+
+  let preview: LinkPreview | null = null;
+  try {
+    const page = await fetchHtml(target);
+    preview = page ? buildPreview(page) : null;
+  } catch (error: any) {
+    console.warn(
+      `[Link Preview] Failed to fetch ${cacheKey}:`,
+      error?.message || error
+    );
+  }
+
+  setCacheHeader(event, cachePreview(cacheKey, preview));
+  return { success: true, data: preview };
+});
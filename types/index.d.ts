@@ -1,4 +1,5 @@
 import type { ToastOptions } from "vue3-toastify";
+import type { UndoToastHandlers } from "~/plugins/toast";
 
 declare module "#app" {
   interface NuxtApp {
@@ -7,6 +8,11 @@ declare module "#app" {
       error: (message: string, options?: ToastOptions) => void;
       info: (message: string, options?: ToastOptions) => void;
       warning: (message: string, options?: ToastOptions) => void;
+      undo: (
+        message: string,
+        handlers: UndoToastHandlers,
+        options?: ToastOptions
+      ) => void;
     };
   }
 }
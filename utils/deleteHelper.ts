@@ -0,0 +1,37 @@
+/**
+ * Message deletion helpers
+ * Messages deleted for everyone stay in the conversation as tombstones
+ */
+
+export const DELETED_MESSAGE_TEXT = "This message was deleted";
+
+/**
+ * Turn a message into its tombstone, dropping everything it carried
+ */
+export const toDeletedMessage = <
+  T extends { content: string; isDeleted?: boolean }
+>(
+  message: T
+): T => ({
+  ...message,
+  content: DELETED_MESSAGE_TEXT,
+  isDeleted: true,
+  reactions: [],
+  edit_history: [],
+  media_url: undefined,
+  attachment: undefined,
+});
+
+/**
+ * Check whether the current user may delete a message for everyone
+ * Senders can delete their own messages; group owners can delete any
+ */
+export const canDeleteForEveryone = (
+  message: { isDeleted?: boolean; pending?: boolean; failed?: boolean },
+  isOwnMessage: boolean,
+  isGroupOwner = false
+): boolean =>
+  !message.isDeleted &&
+  !message.pending &&
+  !message.failed &&
+  (isOwnMessage || isGroupOwner);
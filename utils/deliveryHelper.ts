@@ -0,0 +1,44 @@
+/**
+ * Delivery states of outgoing messages
+ * Messages in the outbox are queued, sending or failed; once the server has
+ * a message it moves on to sent, delivered and finally read
+ */
+
+export type DeliveryStatus =
+  | "queued"
+  | "sending"
+  | "sent"
+  | "delivered"
+  | "read"
+  | "failed";
+
+export const DELIVERY_STATUS_LABELS: Record<DeliveryStatus, string> = {
+  queued: "Waiting for connection",
+  sending: "Sending…",
+  sent: "Sent",
+  delivered: "Delivered",
+  read: "Read",
+  failed: "Not sent",
+};
+
+/**
+ * Work out the delivery state of an outgoing message
+ * An explicit delivery_status (set for outbox messages) wins over the flags
+ */
+export const getDeliveryStatus = (message: {
+  delivery_status?: DeliveryStatus;
+  pending?: boolean;
+  retrying?: boolean;
+  failed?: boolean;
+  read?: boolean;
+  is_read?: boolean;
+  delivered?: boolean;
+  is_delivered?: boolean;
+}): DeliveryStatus => {
+  if (message.delivery_status) return message.delivery_status;
+  if (message.failed) return "failed";
+  if (message.pending || message.retrying) return "sending";
+  if (message.read || message.is_read) return "read";
+  if (message.delivered || message.is_delivered) return "delivered";
+  return "sent";
+};
@@ -0,0 +1,200 @@
+/**
+ * Message edit history helpers
+ * A message keeps its earlier versions in edit_history, oldest first; the
+ * current content is always the latest version
+ */
+
+export interface MessageRevision {
+  content: string;
+  // When this version was written (the send time for the original)
+  edited_at: string;
+}
+
+export interface DiffSegment {
+  type: "same" | "added" | "removed";
+  text: string;
+}
+
+// A version of the message as shown in the edit history
+export interface RevisionEntry extends MessageRevision {
+  isOriginal: boolean;
+  isCurrent: boolean;
+  // Changes compared to the previous version, empty for the original
+  diff: DiffSegment[];
+}
+
+// Word diffs are quadratic; longer texts are shown as a full replacement
+const MAX_DIFF_CELLS = 250000;
+
+/**
+ * Normalize edit history from API or WebSocket payloads
+ * Supports edit_history or revisions entries with content and a timestamp
+ */
+export const normalizeEditHistory = (message: any): MessageRevision[] => {
+  const raw = message?.edit_history || message?.revisions;
+  if (!Array.isArray(raw)) return [];
+
+  return raw
+    .filter((item: any) => typeof item?.content === "string")
+    .map((item: any) => ({
+      content: item.content,
+      edited_at: item.edited_at || item.created_at || item.updated_at || "",
+    }))
+    .sort((a: MessageRevision, b: MessageRevision) =>
+      a.edited_at.localeCompare(b.edited_at)
+    );
+};
+
+/**
+ * Record the current content of a message as a past version before it is
+ * replaced, returning the new history
+ */
+export const recordRevision = (
+  message: {
+    content: string;
+    created_at?: string;
+    updated_at?: string;
+    isEdited?: boolean;
+    edit_history?: MessageRevision[];
+  },
+  newContent: string
+): MessageRevision[] => {
+  const history = message.edit_history || [];
+  if (message.content === newContent) return history;
+
+  // The current version was written at the last edit, or when it was sent
+  const writtenAt =
+    (history.length > 0 || message.isEdited) && message.updated_at
+      ? message.updated_at
+      : message.created_at || message.updated_at || "";
+
+  return [...history, { content: message.content, edited_at: writtenAt }];
+};
+
+/**
+ * Apply an edit to a message, returning a new message
+ * History sent by the server wins over the locally recorded one
+ */
+export const applyEdit = <
+  T extends {
+    content: string;
+    created_at?: string;
+    updated_at?: string;
+    isEdited?: boolean;
+    edit_history?: MessageRevision[];
+  }
+>(
+  message: T,
+  content: string,
+  editedAt: string,
+  serverHistory?: MessageRevision[]
+): T => ({
+  ...message,
+  content,
+  updated_at: editedAt,
+  isEdited: true,
+  edit_history: serverHistory?.length
+    ? serverHistory
+    : recordRevision(message, content),
+});
+
+/**
+ * Check whether earlier versions of a message are known
+ */
+export const hasEditHistory = (message: {
+  edit_history?: MessageRevision[];
+}): boolean => !!message.edit_history?.length;
+
+// Split text into words and the whitespace between them
+const tokenize = (text: string): string[] =>
+  text.split(/(\s+)/).filter((token) => token.length > 0);
+
+const pushSegment = (
+  segments: DiffSegment[],
+  type: DiffSegment["type"],
+  text: string
+) => {
+  const last = segments[segments.length - 1];
+  if (last?.type === type) {
+    last.text += text;
+  } else {
+    segments.push({ type, text });
+  }
+};
+
+/**
+ * Word-level diff between two versions of a message
+ */
+export const diffWords = (before: string, after: string): DiffSegment[] => {
+  const a = tokenize(before);
+  const b = tokenize(after);
+  const segments: DiffSegment[] = [];
+
+  if (a.length * b.length > MAX_DIFF_CELLS) {
+    if (before) pushSegment(segments, "removed", before);
+    if (after) pushSegment(segments, "added", after);
+    return segments;
+  }
+
+  // Longest common subsequence lengths of the suffixes a[i..] and b[j..]
+  const lcs: number[][] = Array.from({ length: a.length + 1 }, () =>
+    new Array(b.length + 1).fill(0)
+  );
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lcs[i][j] =
+        a[i] === b[j]
+          ? lcs[i + 1][j + 1] + 1
+          : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      pushSegment(segments, "same", a[i]);
+      i++;
+      j++;
+    } else if (lcs[i + 1][j] >= lcs[i][j + 1]) {
+      pushSegment(segments, "removed", a[i++]);
+    } else {
+      pushSegment(segments, "added", b[j++]);
+    }
+  }
+  while (i < a.length) pushSegment(segments, "removed", a[i++]);
+  while (j < b.length) pushSegment(segments, "added", b[j++]);
+
+  return segments;
+};
+
+/**
+ * Every version of a message, newest first, each diffed against the
+ * version before it
+ */
+export const getRevisionTimeline = (message: {
+  content: string;
+  created_at?: string;
+  updated_at?: string;
+  edit_history?: MessageRevision[];
+}): RevisionEntry[] => {
+  const versions: MessageRevision[] = [
+    ...(message.edit_history || []),
+    {
+      content: message.content,
+      edited_at: message.updated_at || message.created_at || "",
+    },
+  ];
+
+  return versions
+    .map((version, index) => ({
+      ...version,
+      isOriginal: index === 0,
+      isCurrent: index === versions.length - 1,
+      diff:
+        index === 0
+          ? []
+          : diffWords(versions[index - 1].content, version.content),
+    }))
+    .reverse();
+};
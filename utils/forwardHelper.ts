@@ -0,0 +1,85 @@
+/**
+ * Message forwarding helpers shared by private and group chats
+ * Keeps the "forwarded from" marker consistent between API, WebSocket and UI
+ */
+
+export interface ForwardReference {
+  message_id: string;
+  sender_id?: string;
+  sender_name?: string;
+}
+
+export interface ForwardTarget {
+  id: string;
+  type: "private" | "group";
+  name: string;
+}
+
+/**
+ * Build the forward marker for a message being forwarded
+ * Forwarding an already forwarded message keeps the original author
+ */
+export const buildForwardReference = (
+  message: any,
+  senderName?: string
+): ForwardReference => {
+  if (message.forwarded_from?.message_id) {
+    return { ...message.forwarded_from };
+  }
+
+  return {
+    message_id: message.message_id || message.id,
+    sender_id: message.sender_id || message.sender?.id,
+    sender_name: senderName || message.sender?.name || "Unknown User",
+  };
+};
+
+/**
+ * Normalize the forward marker from API or WebSocket payloads
+ * Supports a nested `forwarded_from` object or flat `forwarded_from_*` fields
+ */
+export const normalizeForwardReference = (
+  raw: any
+): ForwardReference | undefined => {
+  if (!raw) return undefined;
+
+  const nested = raw.forwarded_from;
+  if (nested && typeof nested === "object") {
+    const messageId = nested.message_id || nested.id;
+    if (!messageId) return undefined;
+
+    return {
+      message_id: messageId,
+      sender_id: nested.sender_id || nested.sender?.id,
+      sender_name: nested.sender_name || nested.sender?.name,
+    };
+  }
+
+  const messageId =
+    raw.forwarded_from_id ||
+    raw.forwarded_from_message_id ||
+    (typeof nested === "string" ? nested : undefined);
+  if (!messageId) return undefined;
+
+  return {
+    message_id: messageId,
+    sender_id: raw.forwarded_from_sender_id,
+    sender_name: raw.forwarded_from_sender_name,
+  };
+};
+
+/**
+ * Get the label shown above a forwarded message
+ */
+export const getForwardLabel = (forward: ForwardReference): string => {
+  return forward.sender_name
+    ? `Forwarded from ${forward.sender_name}`
+    : "Forwarded";
+};
+
+/**
+ * Get the media URL to re-send when forwarding, so files are not re-uploaded
+ */
+export const getForwardMediaUrl = (message: any): string | undefined => {
+  return message.media_url || message.attachment_url || message.attachment?.url;
+};
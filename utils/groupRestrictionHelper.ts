@@ -0,0 +1,178 @@
+/**
+ * Group restriction helpers
+ * Owners and admins can mute a member until a given time and slow the whole
+ * group down to one message per member every few seconds; neither applies to
+ * owners and admins themselves
+ */
+
+import { formatScheduledTime } from "./scheduleHelper";
+
+export interface MuteDurationOption {
+  label: string;
+  minutes: number;
+}
+
+export const MUTE_DURATION_OPTIONS: MuteDurationOption[] = [
+  { label: "15 minutes", minutes: 15 },
+  { label: "1 hour", minutes: 60 },
+  { label: "1 day", minutes: 24 * 60 },
+];
+
+export interface SlowModeOption {
+  label: string;
+  // Zero turns slow mode off
+  seconds: number;
+}
+
+export const SLOW_MODE_OPTIONS: SlowModeOption[] = [
+  { label: "Off", seconds: 0 },
+  { label: "10 seconds", seconds: 10 },
+  { label: "30 seconds", seconds: 30 },
+  { label: "1 minute", seconds: 60 },
+  { label: "5 minutes", seconds: 5 * 60 },
+  { label: "15 minutes", seconds: 15 * 60 },
+  { label: "1 hour", seconds: 60 * 60 },
+];
+
+// A mute, as applied locally and received over WebSocket
+export interface MemberMute {
+  user_id: string;
+  // Unmuted when not set
+  muted_until?: string;
+}
+
+// Why the composer is locked, and until when
+export interface ComposerRestriction {
+  reason: "muted" | "slow_mode";
+  until: string;
+}
+
+/**
+ * Normalize a mute from a WebSocket payload
+ */
+export const normalizeMemberMute = (raw: any): MemberMute | undefined => {
+  const userId = raw?.user_id || raw?.member_id;
+  if (!userId) return undefined;
+
+  return {
+    user_id: userId,
+    muted_until: raw.muted_until || raw.mute_until || undefined,
+  };
+};
+
+/**
+ * Normalize a slow mode interval, treating anything invalid as off
+ */
+export const normalizeSlowMode = (value: any): number => {
+  const seconds = Number(value);
+  return Number.isFinite(seconds) && seconds > 0 ? Math.floor(seconds) : 0;
+};
+
+/**
+ * End of a mute that starts now
+ */
+export const getMuteUntil = (minutes: number, now = new Date()): string =>
+  new Date(now.getTime() + minutes * 60 * 1000).toISOString();
+
+/**
+ * Whether a mute is still running
+ */
+export const isMuted = (mutedUntil?: string, now = new Date()): boolean =>
+  !!mutedUntil && new Date(mutedUntil).getTime() > now.getTime();
+
+/**
+ * What keeps a member from sending right now, if anything
+ * A running mute wins over slow mode
+ */
+export const getComposerRestriction = (
+  options: {
+    mutedUntil?: string;
+    slowModeSeconds?: number;
+    // When the member last sent a message to the group
+    lastSentAt?: string;
+    // Set when the server turned a message down because of slow mode; it
+    // holds even if the local slow mode setting is out of date
+    slowModeUntil?: string;
+  },
+  now = new Date()
+): ComposerRestriction | null => {
+  if (isMuted(options.mutedUntil, now)) {
+    return { reason: "muted", until: options.mutedUntil as string };
+  }
+
+  const seconds = normalizeSlowMode(options.slowModeSeconds);
+  const localUntil =
+    seconds && options.lastSentAt
+      ? new Date(options.lastSentAt).getTime() + seconds * 1000
+      : 0;
+  const serverUntil = options.slowModeUntil
+    ? new Date(options.slowModeUntil).getTime()
+    : 0;
+  const until = Math.max(localUntil, serverUntil);
+
+  return until > now.getTime()
+    ? { reason: "slow_mode", until: new Date(until).toISOString() }
+    : null;
+};
+
+/**
+ * When a member may send again after the server turned a message down
+ * because of slow mode; undefined for any other error
+ * Falls back to the group's interval when the server does not say
+ */
+export const getSlowModeRetryAt = (
+  err: any,
+  fallbackSeconds?: number,
+  now = new Date()
+): string | undefined => {
+  const data = err?.data && typeof err.data === "object" ? err.data : {};
+  const isSlowMode =
+    data.code === "slow_mode" ||
+    data.error === "slow_mode" ||
+    err?.status === 429;
+  if (!isSlowMode) return undefined;
+
+  const retryAt = data.retry_at || data.slow_mode_until;
+  if (retryAt && !Number.isNaN(new Date(retryAt).getTime())) return retryAt;
+
+  const seconds =
+    normalizeSlowMode(data.retry_after) || normalizeSlowMode(fallbackSeconds);
+  return seconds
+    ? new Date(now.getTime() + seconds * 1000).toISOString()
+    : undefined;
+};
+
+/**
+ * Format the time left until a moment as h:mm:ss, m:ss, or days and hours
+ */
+export const formatCountdown = (until: string, now = new Date()): string => {
+  const total = Math.max(
+    0,
+    Math.ceil((new Date(until).getTime() - now.getTime()) / 1000)
+  );
+  const days = Math.floor(total / 86400);
+  const hours = Math.floor((total % 86400) / 3600);
+  const minutes = Math.floor((total % 3600) / 60);
+  const seconds = (total % 60).toString().padStart(2, "0");
+
+  if (days > 0) return `${days}d ${hours}h`;
+  if (hours > 0) {
+    return `${hours}:${minutes.toString().padStart(2, "0")}:${seconds}`;
+  }
+  return `${minutes}:${seconds}`;
+};
+
+/**
+ * Describe a slow mode interval, e.g. "1 minute" or "Off"
+ */
+export const describeSlowMode = (seconds?: number): string => {
+  const value = normalizeSlowMode(seconds);
+  const option = SLOW_MODE_OPTIONS.find((o) => o.seconds === value);
+  return option ? option.label : `${value} seconds`;
+};
+
+/**
+ * Describe a running mute, e.g. "Muted until Tomorrow 09:00"
+ */
+export const describeMute = (mutedUntil: string, now = new Date()): string =>
+  `Muted until ${formatScheduledTime(mutedUntil, now)}`;
@@ -0,0 +1,92 @@
+/**
+ * Group role helpers
+ * Owners and admins promote and demote members; only the owner can hand the
+ * group over, and nobody can demote the owner
+ */
+
+export type GroupRole = "owner" | "admin" | "member";
+
+export type RoleAction = "promote" | "demote" | "transfer";
+
+// A role change, as applied locally and received over WebSocket
+export interface GroupRoleChange {
+  user_id: string;
+  role: GroupRole;
+  // Set when ownership moves; the previous owner stays an admin
+  previous_owner_id?: string;
+}
+
+/**
+ * Role of a member, who may be the owner through `is_owner` or the
+ * group's `owner_id`
+ */
+export const getMemberRole = (member: any, ownerId?: string): GroupRole => {
+  if (!member) return "member";
+
+  const userId = member.user_id || member.id;
+  if (member.is_owner || member.role === "owner" || userId === ownerId) {
+    return "owner";
+  }
+  return member.role === "admin" ? "admin" : "member";
+};
+
+/**
+ * Whether someone with the actor's role may apply an action to a member
+ */
+export const canChangeRole = (
+  actor: GroupRole,
+  target: GroupRole,
+  action: RoleAction
+): boolean => {
+  switch (action) {
+    case "promote":
+      return actor !== "member" && target === "member";
+    case "demote":
+      return actor !== "member" && target === "admin";
+    case "transfer":
+      return actor === "owner" && target !== "owner";
+  }
+};
+
+/**
+ * Normalize a role change from a WebSocket payload
+ */
+export const normalizeRoleChange = (
+  raw: any
+): GroupRoleChange | undefined => {
+  const userId = raw?.user_id || raw?.member_id;
+  if (!userId) return undefined;
+
+  return {
+    user_id: userId,
+    role: raw.role === "owner" || raw.role === "admin" ? raw.role : "member",
+    previous_owner_id: raw.previous_owner_id || undefined,
+  };
+};
+
+/**
+ * Apply a role change to a member list
+ * Owners are marked with `is_owner` and keep the admin role underneath
+ */
+export const applyRoleChange = <
+  T extends { user_id: string; role: "admin" | "member"; is_owner?: boolean }
+>(
+  members: T[],
+  change: GroupRoleChange
+): T[] =>
+  members.map((member) => {
+    if (member.user_id === change.user_id) {
+      return {
+        ...member,
+        role: change.role === "member" ? "member" : "admin",
+        is_owner: change.role === "owner",
+      };
+    }
+
+    const isPreviousOwner =
+      change.role === "owner" &&
+      (member.is_owner || member.user_id === change.previous_owner_id);
+    return isPreviousOwner
+      ? { ...member, role: "admin", is_owner: false }
+      : member;
+  });
@@ -0,0 +1,108 @@
+/**
+ * Group settings helpers
+ * Owners and admins decide who may post, edit the group's name and
+ * description, and add members; owners and admins themselves are never
+ * restricted
+ */
+
+import type { GroupRole } from "./groupRoleHelper";
+
+export type AddMembersPolicy = "all_members" | "admins";
+
+export interface GroupPermissions {
+  // Announcement mode: only owners and admins can send messages
+  only_admins_can_send: boolean;
+  only_admins_can_edit_info: boolean;
+  add_members_policy: AddMembersPolicy;
+}
+
+// A change to a group's info or permissions, as received over WebSocket
+export interface GroupSettingsChange extends Partial<GroupPermissions> {
+  name?: string;
+  description?: string;
+  avatar_url?: string;
+}
+
+export interface AddMembersPolicyOption {
+  label: string;
+  value: AddMembersPolicy;
+}
+
+export const ADD_MEMBERS_POLICY_OPTIONS: AddMembersPolicyOption[] = [
+  { label: "All members", value: "all_members" },
+  { label: "Only admins", value: "admins" },
+];
+
+export const MAX_GROUP_NAME_LENGTH = 100;
+export const MAX_GROUP_DESCRIPTION_LENGTH = 500;
+
+/**
+ * Permissions of a group, with anything missing left open to all members
+ * Supports the flags nested under `settings` or flat on the group
+ */
+export const getGroupPermissions = (group: any): GroupPermissions => {
+  const settings =
+    group?.settings && typeof group.settings === "object"
+      ? { ...group.settings, ...group }
+      : group || {};
+
+  return {
+    only_admins_can_send: !!settings.only_admins_can_send,
+    only_admins_can_edit_info: !!settings.only_admins_can_edit_info,
+    add_members_policy:
+      settings.add_members_policy === "admins" ? "admins" : "all_members",
+  };
+};
+
+/**
+ * Normalize a settings change from a WebSocket payload, keeping only the
+ * fields that were sent
+ */
+export const normalizeGroupSettingsChange = (
+  raw: any
+): GroupSettingsChange => {
+  const change: GroupSettingsChange = {};
+  if (!raw || typeof raw !== "object") return change;
+
+  if (typeof raw.name === "string") change.name = raw.name;
+  if (typeof raw.description === "string") {
+    change.description = raw.description;
+  }
+  if (typeof raw.avatar_url === "string") change.avatar_url = raw.avatar_url;
+  if (raw.only_admins_can_send !== undefined) {
+    change.only_admins_can_send = !!raw.only_admins_can_send;
+  }
+  if (raw.only_admins_can_edit_info !== undefined) {
+    change.only_admins_can_edit_info = !!raw.only_admins_can_edit_info;
+  }
+  if (raw.add_members_policy !== undefined) {
+    change.add_members_policy =
+      raw.add_members_policy === "admins" ? "admins" : "all_members";
+  }
+  return change;
+};
+
+/**
+ * Whether someone with a role may send messages to the group
+ */
+export const canSendInGroup = (
+  role: GroupRole,
+  permissions: GroupPermissions
+): boolean => role !== "member" || !permissions.only_admins_can_send;
+
+/**
+ * Whether someone with a role may change the group's name and description
+ */
+export const canEditGroupInfo = (
+  role: GroupRole,
+  permissions: GroupPermissions
+): boolean => role !== "member" || !permissions.only_admins_can_edit_info;
+
+/**
+ * Whether someone with a role may add members to the group
+ */
+export const canAddGroupMembers = (
+  role: GroupRole,
+  permissions: GroupPermissions
+): boolean =>
+  role !== "member" || permissions.add_members_policy === "all_members";
@@ -0,0 +1,88 @@
+/**
+ * Jump-to-date helpers
+ * After jumping to a date the loaded history is a window that may not reach
+ * the latest messages; it grows in both directions with time cursors
+ */
+
+export const HISTORY_PAGE_SIZE = 20;
+
+// Time cursors sent to /message/history, as ISO timestamps
+export interface HistoryCursor {
+  before?: string;
+  after?: string;
+}
+
+const getMessageTime = (message: any): string =>
+  message?.created_at || message?.sent_at || message?.raw_timestamp || "";
+
+const getTimeValue = (message: any): number =>
+  new Date(getMessageTime(message) || 0).getTime() || 0;
+
+/**
+ * Format a date as a YYYY-MM-DD key in local time, as used by date inputs
+ */
+export const toDateKey = (date: Date): string => {
+  const month = String(date.getMonth() + 1).padStart(2, "0");
+  const day = String(date.getDate()).padStart(2, "0");
+  return `${date.getFullYear()}-${month}-${day}`;
+};
+
+/**
+ * Start and end of a calendar day in local time, as ISO timestamps
+ */
+export const getDayBounds = (
+  dateKey: string
+): { start: string; end: string } => {
+  const [year, month, day] = dateKey.split("-").map(Number);
+  return {
+    start: new Date(year, month - 1, day).toISOString(),
+    end: new Date(year, month - 1, day + 1).toISOString(),
+  };
+};
+
+/**
+ * Oldest and newest message times of a list, used as cursors
+ * Optimistic messages only exist locally and are skipped
+ */
+export const getHistoryBounds = (
+  messages: any[]
+): { oldest?: string; newest?: string } => {
+  const sent = messages
+    .filter((message) => !message.pending && getMessageTime(message))
+    .sort((a, b) => getTimeValue(a) - getTimeValue(b));
+
+  return {
+    oldest: getMessageTime(sent[0]) || undefined,
+    newest: getMessageTime(sent[sent.length - 1]) || undefined,
+  };
+};
+
+/**
+ * Merge a page of history into the loaded messages without duplicates,
+ * oldest first
+ */
+export const mergeHistoryPage = <T extends { id: string }>(
+  loaded: T[],
+  page: T[]
+): T[] => {
+  const loadedIds = new Set(loaded.map((message) => message.id));
+  return [
+    ...loaded,
+    ...page.filter((message) => message.id && !loadedIds.has(message.id)),
+  ].sort((a, b) => getTimeValue(a) - getTimeValue(b));
+};
+
+/**
+ * The first message sent at or after a moment, or the last one before it
+ * when nothing was sent since
+ */
+export const findJumpTarget = <T>(
+  messages: T[],
+  from: string
+): T | undefined => {
+  const fromTime = new Date(from).getTime();
+  return (
+    messages.find((message) => getTimeValue(message) >= fromTime) ||
+    messages[messages.length - 1]
+  );
+};
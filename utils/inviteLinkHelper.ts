@@ -0,0 +1,146 @@
+/**
+ * Group invite link helpers
+ * A link is a code that adds whoever opens /join/<code> to the group, until
+ * it expires, runs out of uses or is revoked
+ */
+
+import { formatScheduledTime } from "./scheduleHelper";
+
+export interface GroupInvite {
+  code: string;
+  group_id: string;
+  created_by?: string;
+  created_at: string;
+  expires_at?: string;
+  // Unlimited when not set
+  max_uses?: number;
+  uses: number;
+}
+
+// What someone who opens a link sees before joining
+export interface GroupInvitePreview {
+  code: string;
+  group_id: string;
+  name: string;
+  avatar_url?: string;
+  member_count: number;
+  expires_at?: string;
+  // Whether the current user is already a member
+  is_member?: boolean;
+  // Joining sends a request that an owner or admin has to approve
+  requires_approval?: boolean;
+}
+
+export interface InviteExpiryOption {
+  label: string;
+  // Zero means the link never expires
+  hours: number;
+}
+
+export const INVITE_EXPIRY_OPTIONS: InviteExpiryOption[] = [
+  { label: "Never expires", hours: 0 },
+  { label: "1 hour", hours: 1 },
+  { label: "1 day", hours: 24 },
+  { label: "7 days", hours: 24 * 7 },
+  { label: "30 days", hours: 24 * 30 },
+];
+
+const toCount = (value: any): number | undefined => {
+  const count = Number(value);
+  return Number.isFinite(count) && count > 0 ? Math.floor(count) : undefined;
+};
+
+/**
+ * Normalize an invite link from the API
+ */
+export const normalizeInvite = (raw: any): GroupInvite | undefined => {
+  const code = raw?.code || raw?.invite_code;
+  if (!code) return undefined;
+
+  return {
+    code,
+    group_id: raw.group_id,
+    created_by: raw.created_by,
+    created_at: raw.created_at || new Date().toISOString(),
+    expires_at: raw.expires_at || undefined,
+    max_uses: toCount(raw.max_uses),
+    uses: toCount(raw.uses ?? raw.use_count) || 0,
+  };
+};
+
+/**
+ * Normalize the public preview of the group behind an invite code
+ */
+export const normalizeInvitePreview = (
+  raw: any,
+  code: string
+): GroupInvitePreview | undefined => {
+  const group = raw?.group && typeof raw.group === "object" ? raw.group : raw;
+  const groupId = group?.group_id || group?.id;
+  if (!groupId) return undefined;
+
+  return {
+    code,
+    group_id: groupId,
+    name: group.name || "Group",
+    avatar_url: group.avatar_url || undefined,
+    member_count: toCount(group.member_count ?? raw.member_count) || 0,
+    expires_at: raw.expires_at || group.expires_at || undefined,
+    is_member: !!(raw.is_member ?? group.is_member),
+    requires_approval: !!(raw.requires_approval ?? group.requires_approval),
+  };
+};
+
+/**
+ * Expiry time of a new link, or undefined for links that never expire
+ */
+export const getInviteExpiry = (
+  hours: number,
+  now = new Date()
+): string | undefined =>
+  hours > 0
+    ? new Date(now.getTime() + hours * 60 * 60 * 1000).toISOString()
+    : undefined;
+
+/**
+ * Whether a link can still be used to join
+ */
+export const isInviteUsable = (invite: GroupInvite, now = new Date()) =>
+  (!invite.expires_at ||
+    new Date(invite.expires_at).getTime() > now.getTime()) &&
+  (!invite.max_uses || invite.uses < invite.max_uses);
+
+/**
+ * Full URL of an invite link on this site
+ */
+export const getInviteUrl = (code: string): string => {
+  const origin = process.client ? window.location.origin : "";
+  return `${origin}/join/${encodeURIComponent(code)}`;
+};
+
+/**
+ * Describe a link's limits, e.g. "Expires Tomorrow 09:00 · 3/10 uses"
+ */
+export const describeInviteLimits = (
+  invite: GroupInvite,
+  now = new Date()
+): string => {
+  const parts: string[] = [];
+
+  if (invite.expires_at) {
+    parts.push(
+      new Date(invite.expires_at).getTime() > now.getTime()
+        ? `Expires ${formatScheduledTime(invite.expires_at, now)}`
+        : "Expired"
+    );
+  } else {
+    parts.push("No expiry");
+  }
+
+  parts.push(
+    invite.max_uses
+      ? `${invite.uses}/${invite.max_uses} uses`
+      : `${invite.uses} ${invite.uses === 1 ? "use" : "uses"}`
+  );
+  return parts.join(" · ");
+};
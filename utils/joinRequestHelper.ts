@@ -0,0 +1,78 @@
+/**
+ * Join request helpers
+ * Groups that require approval turn a join into a request that owners and
+ * admins approve or reject
+ */
+
+export type JoinRequestStatus = "pending" | "approved" | "rejected";
+
+export type JoinRequestDecision = "approve" | "reject";
+
+export interface JoinRequest {
+  id: string;
+  group_id: string;
+  user_id: string;
+  user_name?: string;
+  avatar_url?: string;
+  status: JoinRequestStatus;
+  created_at: string;
+  // When an admin approved or rejected the request
+  reviewed_at?: string;
+}
+
+const toStatus = (value: any): JoinRequestStatus =>
+  value === "approved" || value === "rejected" ? value : "pending";
+
+/**
+ * Normalize a join request from API or WebSocket payloads
+ * Supports the requester nested under `user` or flat fields
+ */
+export const normalizeJoinRequest = (raw: any): JoinRequest | undefined => {
+  const id = raw?.id || raw?.request_id;
+  const user = raw?.user && typeof raw.user === "object" ? raw.user : raw;
+  const userId = raw?.user_id || user?.id;
+  if (!id || !raw.group_id || !userId) return undefined;
+
+  return {
+    id,
+    group_id: raw.group_id,
+    user_id: userId,
+    user_name:
+      raw.user_name ||
+      user.full_name ||
+      user.name ||
+      user.username ||
+      undefined,
+    avatar_url: user.avatar_url || user.profile_picture_url || undefined,
+    status: toStatus(raw.status),
+    created_at: raw.created_at || new Date().toISOString(),
+    reviewed_at: raw.reviewed_at || undefined,
+  };
+};
+
+/**
+ * Add a request to a pending queue, oldest first, replacing an earlier copy
+ */
+export const upsertJoinRequest = (
+  requests: JoinRequest[] = [],
+  request: JoinRequest
+): JoinRequest[] =>
+  [...requests.filter((r) => r.id !== request.id), request].sort(
+    (a, b) =>
+      new Date(a.created_at).getTime() - new Date(b.created_at).getTime()
+  );
+
+/**
+ * Remove reviewed requests from a pending queue
+ */
+export const removeJoinRequests = (
+  requests: JoinRequest[] = [],
+  requestIds: string[]
+): JoinRequest[] => requests.filter((r) => !requestIds.includes(r.id));
+
+/**
+ * Status of a decision, as stored on the request
+ */
+export const getDecisionStatus = (
+  decision: JoinRequestDecision
+): JoinRequestStatus => (decision === "approve" ? "approved" : "rejected");
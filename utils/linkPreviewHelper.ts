@@ -0,0 +1,51 @@
+/**
+ * Link preview helpers for message bubbles
+ * Previews are unfurled by the Nuxt server route /api/link-preview
+ */
+
+export interface LinkPreview {
+  url: string;
+  title?: string;
+  description?: string;
+  image?: string;
+  siteName?: string;
+}
+
+const URL_PATTERN = /\bhttps?:\/\/[^\s<>"'`]+[^\s<>"'`.,;:!?)\]]/;
+
+// In-flight and finished lookups, shared by every bubble showing the same URL
+const previewRequests = new Map<string, Promise<LinkPreview | null>>();
+
+/**
+ * Get the first http(s) URL of a message, ignoring URLs inside code
+ */
+export const extractFirstUrl = (content: string): string | null => {
+  if (!content) return null;
+
+  const withoutCode = content
+    .replace(/```[\s\S]*?```/g, " ")
+    .replace(/`[^`\n]*`/g, " ");
+  return withoutCode.match(URL_PATTERN)?.[0] || null;
+};
+
+/**
+ * Fetch the preview of a URL once per page load
+ * Failures resolve to null so bubbles simply show no card
+ */
+export const fetchLinkPreview = (url: string): Promise<LinkPreview | null> => {
+  const existing = previewRequests.get(url);
+  if (existing) return existing;
+
+  const request = $fetch<{ success: boolean; data: LinkPreview | null }>(
+    "/api/link-preview",
+    { query: { url } }
+  )
+    .then((response) => response?.data || null)
+    .catch((error) => {
+      console.warn(`[LinkPreview] Failed to load preview for ${url}:`, error);
+      return null;
+    });
+
+  previewRequests.set(url, request);
+  return request;
+};
@@ -0,0 +1,397 @@
+/**
+ * Safe Markdown subset for message bubbles and the composer toolbar
+ * All text is HTML-escaped before formatting, so user content can never
+ * inject markup; only the tags generated here reach v-html
+ */
+
+import { splitMentionSegments } from "./mentionHelper";
+
+export type MarkdownFormat =
+  | "bold"
+  | "italic"
+  | "strikethrough"
+  | "code"
+  | "codeBlock"
+  | "link"
+  | "bulletList"
+  | "numberedList"
+  | "quote";
+
+export interface FormattingResult {
+  text: string;
+  selectionStart: number;
+  selectionEnd: number;
+}
+
+export interface RenderMarkdownOptions {
+  // Display names highlighted as @mentions outside of code
+  mentionNames?: string[];
+}
+
+// Links are only rendered for these protocols, anything else stays text
+const SAFE_LINK_PROTOCOLS = ["http:", "https:", "mailto:"];
+
+const CODE_KEYWORDS = new Set([
+  "async", "await", "break", "case", "catch", "class", "const", "continue",
+  "def", "default", "do", "elif", "else", "enum", "export", "extends",
+  "false", "finally", "for", "from", "func", "function", "if", "import",
+  "in", "interface", "let", "new", "nil", "None", "null", "package",
+  "private", "public", "return", "self", "static", "struct", "switch",
+  "this", "throw", "true", "True", "False", "try", "type", "undefined",
+  "var", "void", "while", "with", "yield",
+]);
+
+// Placeholders keep generated HTML away from later inline passes
+const PLACEHOLDER = "\u0000";
+
+/**
+ * Escape text for safe use in HTML content and attributes
+ */
+export const escapeHtml = (text: string): string =>
+  text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;");
+
+/**
+ * Return the URL if it uses a safe protocol, otherwise undefined
+ */
+export const sanitizeUrl = (url: string): string | undefined => {
+  try {
+    const parsed = new URL(url.trim());
+    return SAFE_LINK_PROTOCOLS.includes(parsed.protocol)
+      ? parsed.href
+      : undefined;
+  } catch {
+    return undefined;
+  }
+};
+
+const renderLink = (url: string, label: string): string =>
+  `<a href="${escapeHtml(url)}" class="md-link" target="_blank" ` +
+  `rel="noopener noreferrer nofollow">${label}</a>`;
+
+/**
+ * Highlight code with a small language-agnostic tokenizer
+ * Covers comments, strings, numbers and common keywords
+ */
+export const highlightCode = (code: string): string => {
+  const tokenPattern =
+    /(\/\/[^\n]*|#[^\n]*|\/\*[\s\S]*?\*\/)|("(?:\\.|[^"\\\n])*"|'(?:\\.|[^'\\\n])*'|`(?:\\.|[^`\\])*`)|(\b\d+(?:\.\d+)?\b)|(\b[A-Za-z_]\w*\b)/g;
+
+  let html = "";
+  let lastIndex = 0;
+
+  for (const match of code.matchAll(tokenPattern)) {
+    const index = match.index ?? 0;
+    html += escapeHtml(code.slice(lastIndex, index));
+    lastIndex = index + match[0].length;
+
+    const [token, comment, string, number, word] = match;
+    if (comment) {
+      html += `<span class="md-tok-comment">${escapeHtml(comment)}</span>`;
+    } else if (string) {
+      html += `<span class="md-tok-string">${escapeHtml(string)}</span>`;
+    } else if (number) {
+      html += `<span class="md-tok-number">${number}</span>`;
+    } else if (word && CODE_KEYWORDS.has(word)) {
+      html += `<span class="md-tok-keyword">${word}</span>`;
+    } else {
+      html += escapeHtml(token);
+    }
+  }
+
+  return html + escapeHtml(code.slice(lastIndex));
+};
+
+/**
+ * Render inline Markdown: code, links, mentions, bold, italic, strikethrough
+ */
+const renderInline = (text: string, options: RenderMarkdownOptions): string => {
+  const fragments: string[] = [];
+  const hold = (html: string) => {
+    fragments.push(html);
+    return `${PLACEHOLDER}${fragments.length - 1}${PLACEHOLDER}`;
+  };
+
+  let result = text
+    // Inline code is taken verbatim
+    .replace(/`([^`\n]+)`/g, (_, code: string) =>
+      hold(`<code class="md-code">${escapeHtml(code)}</code>`)
+    )
+    // [label](url)
+    .replace(/\[([^\]\n]+)\]\(([^)\s]+)\)/g, (match, label, url) => {
+      const safeUrl = sanitizeUrl(url);
+      return safeUrl ? hold(renderLink(safeUrl, escapeHtml(label))) : match;
+    })
+    // Bare URLs
+    .replace(/\bhttps?:\/\/[^\s<>"'`]+[^\s<>"'`.,;:!?)\]]/g, (url) => {
+      const safeUrl = sanitizeUrl(url);
+      return safeUrl ? hold(renderLink(safeUrl, escapeHtml(url))) : url;
+    });
+
+  // Mentions are matched on raw text, then every plain piece is escaped
+  result = splitMentionSegments(result, options.mentionNames || [])
+    .map((segment) =>
+      segment.isMention
+        ? hold(`<span class="md-mention">${escapeHtml(segment.text)}</span>`)
+        : escapeHtml(segment.text)
+    )
+    .join("");
+
+  result = result
+    .replace(/\*\*(?=\S)([\s\S]*?\S)\*\*/g, "<strong>$1</strong>")
+    .replace(/__(?=\S)([\s\S]*?\S)__/g, "<strong>$1</strong>")
+    .replace(/~~(?=\S)([\s\S]*?\S)~~/g, "<del>$1</del>")
+    .replace(/(^|[^*\w])\*(?=\S)([^*\n]*?\S)\*(?!\w)/g, "$1<em>$2</em>")
+    .replace(/(^|[^_\w])_(?=\S)([^_\n]*?\S)_(?!\w)/g, "$1<em>$2</em>");
+
+  const placeholderPattern = new RegExp(
+    `${PLACEHOLDER}(\\d+)${PLACEHOLDER}`,
+    "g"
+  );
+  return result.replace(
+    placeholderPattern,
+    (_, index: string) => fragments[Number(index)]
+  );
+};
+
+/**
+ * Render a message as sanitized HTML
+ * Supports bold, italic, strikethrough, inline code, fenced code blocks,
+ * links, bullet and numbered lists, and block quotes
+ */
+export const renderMarkdown = (
+  content: string,
+  options: RenderMarkdownOptions = {}
+): string => {
+  if (!content) return "";
+
+  const lines = content.replace(new RegExp(PLACEHOLDER, "g"), "").split("\n");
+  const blocks: string[] = [];
+  let paragraph: string[] = [];
+
+  const flushParagraph = () => {
+    if (paragraph.length === 0) return;
+    const html = paragraph.map((line) => renderInline(line, options));
+    blocks.push(`<p>${html.join("<br>")}</p>`);
+    paragraph = [];
+  };
+
+  // Collect consecutive lines matching a pattern, without the marker
+  const collect = (start: number, pattern: RegExp) => {
+    const items: string[] = [];
+    let index = start;
+    while (index < lines.length && pattern.test(lines[index])) {
+      items.push(lines[index].replace(pattern, ""));
+      index++;
+    }
+    return { items, next: index };
+  };
+
+  let i = 0;
+  while (i < lines.length) {
+    const line = lines[i];
+    const fence = line.match(/^\s*```\s*([\w+-]*)\s*$/);
+
+    if (fence) {
+      flushParagraph();
+      const codeLines: string[] = [];
+      i++;
+      while (i < lines.length && !/^\s*```\s*$/.test(lines[i])) {
+        codeLines.push(lines[i]);
+        i++;
+      }
+      i++; // Skip the closing fence (or run past the end if it is missing)
+
+      const language = fence[1]
+        ? ` data-language="${escapeHtml(fence[1])}"`
+        : "";
+      blocks.push(
+        `<pre class="md-code-block"${language}><code>${highlightCode(
+          codeLines.join("\n")
+        )}</code></pre>`
+      );
+      continue;
+    }
+
+    if (/^\s*>\s?/.test(line)) {
+      flushParagraph();
+      const { items, next } = collect(i, /^\s*>\s?/);
+      blocks.push(
+        `<blockquote class="md-quote">${items
+          .map((item) => renderInline(item, options))
+          .join("<br>")}</blockquote>`
+      );
+      i = next;
+      continue;
+    }
+
+    if (/^\s*[-*+]\s+/.test(line)) {
+      flushParagraph();
+      const { items, next } = collect(i, /^\s*[-*+]\s+/);
+      blocks.push(
+        `<ul class="md-list">${items
+          .map((item) => `<li>${renderInline(item, options)}</li>`)
+          .join("")}</ul>`
+      );
+      i = next;
+      continue;
+    }
+
+    if (/^\s*\d+[.)]\s+/.test(line)) {
+      flushParagraph();
+      const { items, next } = collect(i, /^\s*\d+[.)]\s+/);
+      blocks.push(
+        `<ol class="md-list">${items
+          .map((item) => `<li>${renderInline(item, options)}</li>`)
+          .join("")}</ol>`
+      );
+      i = next;
+      continue;
+    }
+
+    if (!line.trim()) {
+      flushParagraph();
+    } else {
+      paragraph.push(line);
+    }
+    i++;
+  }
+
+  flushParagraph();
+  return blocks.join("");
+};
+
+/**
+ * Strip Markdown markers for one-line previews (lists, replies, pins)
+ */
+export const stripMarkdown = (content: string): string =>
+  content
+    .replace(/```[\w+-]*\n?([\s\S]*?)```/g, "$1")
+    .replace(/`([^`]+)`/g, "$1")
+    .replace(/\[([^\]]+)\]\([^)]+\)/g, "$1")
+    .replace(/(\*\*|__|~~)(.+?)\1/g, "$2")
+    .replace(/(^|\W)[*_](\S.*?\S|\S)[*_](?=\W|$)/g, "$1$2")
+    .replace(/^\s*(?:>|[-*+]|\d+[.)])\s+/gm, "");
+
+const wrapSelection = (
+  text: string,
+  start: number,
+  end: number,
+  before: string,
+  after: string,
+  placeholder: string
+): FormattingResult => {
+  const selected = text.slice(start, end) || placeholder;
+  return {
+    text: text.slice(0, start) + before + selected + after + text.slice(end),
+    selectionStart: start + before.length,
+    selectionEnd: start + before.length + selected.length,
+  };
+};
+
+const prefixLines = (
+  text: string,
+  start: number,
+  end: number,
+  getPrefix: (index: number) => string
+): FormattingResult => {
+  const lineStart = text.lastIndexOf("\n", start - 1) + 1;
+  const lineEndIndex = text.indexOf("\n", end);
+  const lineEnd = lineEndIndex === -1 ? text.length : lineEndIndex;
+
+  const block = text
+    .slice(lineStart, lineEnd)
+    .split("\n")
+    .map((line, index) => getPrefix(index) + line)
+    .join("\n");
+
+  return {
+    text: text.slice(0, lineStart) + block + text.slice(lineEnd),
+    selectionStart: lineStart,
+    selectionEnd: lineStart + block.length,
+  };
+};
+
+/**
+ * Apply a toolbar format to the composer text around the selection
+ */
+export const applyMarkdownFormat = (
+  text: string,
+  selectionStart: number,
+  selectionEnd: number,
+  format: MarkdownFormat
+): FormattingResult => {
+  const start = Math.min(selectionStart, selectionEnd);
+  const end = Math.max(selectionStart, selectionEnd);
+
+  switch (format) {
+    case "bold":
+      return wrapSelection(text, start, end, "**", "**", "bold text");
+    case "italic":
+      return wrapSelection(text, start, end, "_", "_", "italic text");
+    case "strikethrough":
+      return wrapSelection(text, start, end, "~~", "~~", "text");
+    case "code":
+      return wrapSelection(text, start, end, "`", "`", "code");
+    case "codeBlock": {
+      const before = start > 0 && text[start - 1] !== "\n" ? "\n```\n" : "```\n";
+      return wrapSelection(text, start, end, before, "\n```", "code");
+    }
+    case "link": {
+      const selected = text.slice(start, end);
+      if (sanitizeUrl(selected)) {
+        // A selected URL becomes the target, the label gets selected
+        return {
+          text: `${text.slice(0, start)}[link](${selected})${text.slice(end)}`,
+          selectionStart: start + 1,
+          selectionEnd: start + 5,
+        };
+      }
+      const result = wrapSelection(text, start, end, "[", "](https://)", "link");
+      const urlStart = result.selectionEnd + 2;
+      return {
+        ...result,
+        selectionStart: urlStart,
+        selectionEnd: urlStart + "https://".length,
+      };
+    }
+    case "bulletList":
+      return prefixLines(text, start, end, () => "- ");
+    case "numberedList":
+      return prefixLines(text, start, end, (index) => `${index + 1}. `);
+    case "quote":
+      return prefixLines(text, start, end, () => "> ");
+  }
+};
+
+/**
+ * Map a composer keyboard shortcut to a format, if it is one
+ * Ctrl/Cmd+B bold, +I italic, +E code, +K link, +Shift+X strikethrough
+ */
+export const getShortcutFormat = (
+  event: KeyboardEvent
+): MarkdownFormat | null => {
+  if (!(event.ctrlKey || event.metaKey) || event.altKey) return null;
+
+  const key = event.key.toLowerCase();
+  if (event.shiftKey) {
+    return key === "x" ? "strikethrough" : null;
+  }
+
+  switch (key) {
+    case "b":
+      return "bold";
+    case "i":
+      return "italic";
+    case "e":
+      return "code";
+    case "k":
+      return "link";
+    default:
+      return null;
+  }
+};
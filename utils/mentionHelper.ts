@@ -0,0 +1,145 @@
+/**
+ * @mention helpers for the group chat composer and message rendering
+ * Mentions are written as "@Display Name" in the content and sent as user IDs
+ */
+
+export interface MentionCandidate {
+  user_id: string;
+  name: string;
+  avatar?: string;
+}
+
+export interface MentionQuery {
+  query: string;
+  start: number;
+}
+
+export interface ContentSegment {
+  text: string;
+  isMention: boolean;
+}
+
+/**
+ * Find the "@query" being typed right before the caret, if any
+ * The "@" must start the text or follow whitespace so emails are ignored
+ */
+export const getMentionQuery = (
+  text: string,
+  caret: number
+): MentionQuery | null => {
+  const beforeCaret = text.slice(0, caret);
+  const match = beforeCaret.match(/(^|\s)@([^\s@]*)$/);
+  if (!match) return null;
+
+  return {
+    query: match[2],
+    start: beforeCaret.length - match[2].length - 1,
+  };
+};
+
+/**
+ * Replace the "@query" at `start` with "@Name " and return the new caret
+ */
+export const insertMention = (
+  text: string,
+  start: number,
+  caret: number,
+  name: string
+): { text: string; caret: number } => {
+  const mention = `@${name} `;
+  return {
+    text: text.slice(0, start) + mention + text.slice(caret),
+    caret: start + mention.length,
+  };
+};
+
+/**
+ * Filter mention candidates by the typed query (case-insensitive)
+ */
+export const filterMentionCandidates = (
+  candidates: MentionCandidate[],
+  query: string,
+  limit = 6
+): MentionCandidate[] => {
+  const normalizedQuery = query.toLowerCase();
+  return candidates
+    .filter((candidate) =>
+      candidate.name.toLowerCase().includes(normalizedQuery)
+    )
+    .sort(
+      (a, b) =>
+        Number(!a.name.toLowerCase().startsWith(normalizedQuery)) -
+        Number(!b.name.toLowerCase().startsWith(normalizedQuery))
+    )
+    .slice(0, limit);
+};
+
+/**
+ * Get the IDs of candidates still mentioned in the final content
+ * Mentions the user deleted while editing are dropped
+ */
+export const extractMentionIds = (
+  content: string,
+  candidates: MentionCandidate[]
+): string[] => {
+  const ids = candidates
+    .filter((candidate) => content.includes(`@${candidate.name}`))
+    .map((candidate) => candidate.user_id);
+  return [...new Set(ids)];
+};
+
+/**
+ * Normalize mentioned user IDs from API or WebSocket payloads
+ * Supports `mention_ids` or a `mentions` list of IDs or user objects
+ */
+export const normalizeMentionIds = (raw: any): string[] => {
+  const list = raw?.mention_ids || raw?.mentions;
+  if (!Array.isArray(list)) return [];
+
+  return list
+    .map((item: any) =>
+      typeof item === "string" ? item : item?.user_id || item?.id
+    )
+    .filter(Boolean);
+};
+
+const escapeRegExp = (value: string) =>
+  value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+
+/**
+ * Split content into plain and "@Name" segments for highlighting
+ * Longer names are matched first so "@Ann Lee" wins over "@Ann"
+ */
+export const splitMentionSegments = (
+  content: string,
+  names: string[]
+): ContentSegment[] => {
+  const uniqueNames = [...new Set(names.filter(Boolean))].sort(
+    (a, b) => b.length - a.length
+  );
+  if (!content || uniqueNames.length === 0) {
+    return [{ text: content, isMention: false }];
+  }
+
+  const pattern = new RegExp(
+    `@(?:${uniqueNames.map(escapeRegExp).join("|")})`,
+    "g"
+  );
+  const segments: ContentSegment[] = [];
+  let lastIndex = 0;
+
+  for (const match of content.matchAll(pattern)) {
+    const index = match.index ?? 0;
+    if (index > lastIndex) {
+      segments.push({ text: content.slice(lastIndex, index), isMention: false });
+    }
+    segments.push({ text: match[0], isMention: true });
+    lastIndex = index + match[0].length;
+  }
+
+  if (lastIndex < content.length) {
+    segments.push({ text: content.slice(lastIndex), isMention: false });
+  }
+
+  return segments;
+};
@@ -0,0 +1,471 @@
+/**
+ * Offline message cache backed by IndexedDB
+ * Stores conversations in their API shape so cached and fetched messages
+ * go through the same normalization, plus the WebSocket send queue
+ *
+ * Every function resolves quietly when IndexedDB is unavailable (SSR,
+ * private browsing), so callers can treat the cache as best-effort
+ */
+
+import { createSearchIndex } from "~/utils/searchIndex";
+
+export type CachedConversationType = "private" | "group";
+
+export interface CachedConversationState {
+  key: string;
+  synced_at: string;
+}
+
+interface CachedMessageRecord {
+  cache_key: string;
+  conversation_key: string;
+  message_id: string;
+  created_at: string;
+  message: any;
+}
+
+const DB_NAME = "chat_message_cache";
+const DB_VERSION = 2;
+const MESSAGES_STORE = "messages";
+const CONVERSATIONS_STORE = "conversations";
+const SOCKET_QUEUE_STORE = "socket_queue";
+const BY_CONVERSATION_INDEX = "by_conversation";
+const BY_MESSAGE_ID_INDEX = "by_message_id";
+
+// Older messages are pruned so the cache cannot grow without bound
+export const MAX_CACHED_MESSAGES_PER_CONVERSATION = 500;
+
+let dbPromise: Promise<IDBDatabase | null> | null = null;
+
+// Search index over cached conversations, built the first time each
+// conversation is searched and kept in step with every write after that
+const searchIndex = createSearchIndex();
+
+const isIndexedDBAvailable = () =>
+  typeof window !== "undefined" && typeof indexedDB !== "undefined";
+
+const openDatabase = (): Promise<IDBDatabase | null> => {
+  if (!isIndexedDBAvailable()) return Promise.resolve(null);
+  if (dbPromise) return dbPromise;
+
+  dbPromise = new Promise<IDBDatabase | null>((resolve) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      if (!db.objectStoreNames.contains(MESSAGES_STORE)) {
+        const messages = db.createObjectStore(MESSAGES_STORE, {
+          keyPath: "cache_key",
+        });
+        messages.createIndex(BY_CONVERSATION_INDEX, [
+          "conversation_key",
+          "created_at",
+        ]);
+      }
+      const messages = request.transaction!.objectStore(MESSAGES_STORE);
+      if (!messages.indexNames.contains(BY_MESSAGE_ID_INDEX)) {
+        messages.createIndex(BY_MESSAGE_ID_INDEX, "message_id");
+        // Records cached before the index existed get their message id
+        messages.openCursor().onsuccess = (event) => {
+          const cursor = (event.target as IDBRequest<IDBCursorWithValue>)
+            .result;
+          if (!cursor) return;
+          const record = cursor.value;
+          cursor.update({
+            ...record,
+            message_id: String(record.cache_key).split("|").pop(),
+          });
+          cursor.continue();
+        };
+      }
+      if (!db.objectStoreNames.contains(CONVERSATIONS_STORE)) {
+        db.createObjectStore(CONVERSATIONS_STORE, { keyPath: "key" });
+      }
+      if (!db.objectStoreNames.contains(SOCKET_QUEUE_STORE)) {
+        db.createObjectStore(SOCKET_QUEUE_STORE, { keyPath: "_queueId" });
+      }
+    };
+
+    request.onsuccess = () => {
+      const db = request.result;
+      // Another tab upgrading the schema needs this connection closed
+      db.onversionchange = () => {
+        db.close();
+        dbPromise = null;
+      };
+      resolve(db);
+    };
+
+    request.onerror = () => {
+      console.warn("[MessageCache] Failed to open IndexedDB:", request.error);
+      dbPromise = null;
+      resolve(null);
+    };
+  });
+
+  return dbPromise;
+};
+
+const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const transactionDone = (transaction: IDBTransaction): Promise<void> =>
+  new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+
+// Range covering every message of one conversation in the index
+const conversationRange = (conversationKey: string) =>
+  IDBKeyRange.bound([conversationKey, ""], [conversationKey, "\uffff"]);
+
+// Reactive proxies and blobs cannot be stored, so messages are cloned as JSON
+const toPlainObject = <T>(value: T): T => JSON.parse(JSON.stringify(value));
+
+/**
+ * Build the cache key of a conversation, scoped to the signed-in user
+ */
+export const getConversationKey = (
+  userId: string,
+  type: CachedConversationType,
+  targetId: string
+): string => `${userId}:${type}:${targetId}`;
+
+/**
+ * Check whether a message should be cached
+ * Optimistic and failed messages only exist locally and are skipped
+ */
+export const isCacheableMessage = (message: any): boolean => {
+  const id = message?.id || message?.message_id;
+  return (
+    !!id &&
+    !String(id).startsWith("temp-") &&
+    !message.pending &&
+    !message.failed
+  );
+};
+
+/**
+ * Read the newest cached messages of a conversation, oldest first
+ */
+export const readCachedMessages = async (
+  conversationKey: string,
+  limit = MAX_CACHED_MESSAGES_PER_CONVERSATION
+): Promise<any[]> => {
+  const db = await openDatabase();
+  if (!db) return [];
+
+  try {
+    const transaction = db.transaction(MESSAGES_STORE, "readonly");
+    const index = transaction
+      .objectStore(MESSAGES_STORE)
+      .index(BY_CONVERSATION_INDEX);
+    const records: CachedMessageRecord[] = [];
+
+    await new Promise<void>((resolve, reject) => {
+      // Walk backwards from the newest message until the limit is reached
+      const cursorRequest = index.openCursor(
+        conversationRange(conversationKey),
+        "prev"
+      );
+      cursorRequest.onsuccess = () => {
+        const cursor = cursorRequest.result;
+        if (!cursor || records.length >= limit) return resolve();
+        records.push(cursor.value);
+        cursor.continue();
+      };
+      cursorRequest.onerror = () => reject(cursorRequest.error);
+    });
+
+    return records.reverse().map((record) => record.message);
+  } catch (error) {
+    console.warn(`[MessageCache] Failed to read ${conversationKey}:`, error);
+    return [];
+  }
+};
+
+/**
+ * Insert or update messages of a conversation
+ * With replace, cached messages missing from the list are removed as well
+ */
+export const writeCachedMessages = async (
+  conversationKey: string,
+  messages: any[],
+  options: { replace?: boolean } = {}
+): Promise<void> => {
+  const db = await openDatabase();
+  if (!db) return;
+
+  try {
+    const transaction = db.transaction(MESSAGES_STORE, "readwrite");
+    const store = transaction.objectStore(MESSAGES_STORE);
+    const index = store.index(BY_CONVERSATION_INDEX);
+
+    if (options.replace) {
+      const keys = await requestToPromise(
+        index.getAllKeys(conversationRange(conversationKey))
+      );
+      keys.forEach((key) => store.delete(key));
+    }
+
+    for (const message of messages.filter(isCacheableMessage)) {
+      const id = message.id || message.message_id;
+      const record: CachedMessageRecord = {
+        cache_key: `${conversationKey}|${id}`,
+        conversation_key: conversationKey,
+        message_id: String(id),
+        created_at:
+          message.created_at || message.sent_at || new Date().toISOString(),
+        message: toPlainObject(message),
+      };
+      store.put(record);
+    }
+
+    // Drop the oldest messages beyond the per-conversation limit
+    const allKeys = await requestToPromise(
+      index.getAllKeys(conversationRange(conversationKey))
+    );
+    const overflow = allKeys.length - MAX_CACHED_MESSAGES_PER_CONVERSATION;
+    allKeys.slice(0, Math.max(0, overflow)).forEach((key) => store.delete(key));
+
+    await transactionDone(transaction);
+
+    if (searchIndex.hasConversation(conversationKey)) {
+      const cacheable = toPlainObject(messages.filter(isCacheableMessage));
+      if (options.replace) {
+        searchIndex.setConversation(
+          conversationKey,
+          cacheable.slice(-MAX_CACHED_MESSAGES_PER_CONVERSATION)
+        );
+      } else {
+        searchIndex.upsertMessages(conversationKey, cacheable);
+      }
+    }
+  } catch (error) {
+    console.warn(`[MessageCache] Failed to write ${conversationKey}:`, error);
+  }
+};
+
+/**
+ * Rewrite a cached message after an edit or a delete for everyone, in
+ * whichever of the user's conversations it is cached, so reloads and
+ * offline search show the change too
+ * Looked up through the message id index, so only that message is read
+ */
+export const updateCachedMessage = async (
+  userId: string,
+  messageId: string,
+  update: (message: any) => any
+): Promise<void> => {
+  const db = await openDatabase();
+  if (!db) return;
+
+  try {
+    const transaction = db.transaction(MESSAGES_STORE, "readwrite");
+    const store = transaction.objectStore(MESSAGES_STORE);
+    const records: CachedMessageRecord[] = await requestToPromise(
+      store
+        .index(BY_MESSAGE_ID_INDEX)
+        .getAll(IDBKeyRange.only(String(messageId)))
+    );
+
+    // The same message may be cached for other users of this browser
+    const updated: any[] = [];
+    for (const record of records) {
+      if (!record.conversation_key.startsWith(`${userId}:`)) continue;
+
+      const message = toPlainObject(update(record.message));
+      store.put({ ...record, message });
+      updated.push(message);
+    }
+
+    await transactionDone(transaction);
+    updated.forEach((message) => searchIndex.updateMessage(messageId, message));
+  } catch (error) {
+    console.warn(`[MessageCache] Failed to update ${messageId}:`, error);
+  }
+};
+
+/**
+ * Get when a conversation was last synced with the server
+ */
+export const readConversationState = async (
+  conversationKey: string
+): Promise<CachedConversationState | null> => {
+  const db = await openDatabase();
+  if (!db) return null;
+
+  try {
+    const transaction = db.transaction(CONVERSATIONS_STORE, "readonly");
+    const state = await requestToPromise(
+      transaction.objectStore(CONVERSATIONS_STORE).get(conversationKey)
+    );
+    return state || null;
+  } catch (error) {
+    console.warn(`[MessageCache] Failed to read ${conversationKey}:`, error);
+    return null;
+  }
+};
+
+/**
+ * Record a successful sync of a conversation
+ */
+export const markConversationSynced = async (
+  conversationKey: string
+): Promise<void> => {
+  const db = await openDatabase();
+  if (!db) return;
+
+  try {
+    const transaction = db.transaction(CONVERSATIONS_STORE, "readwrite");
+    const state: CachedConversationState = {
+      key: conversationKey,
+      synced_at: new Date().toISOString(),
+    };
+    transaction.objectStore(CONVERSATIONS_STORE).put(state);
+    await transactionDone(transaction);
+  } catch (error) {
+    console.warn(`[MessageCache] Failed to mark ${conversationKey}:`, error);
+  }
+};
+
+/**
+ * Merge the newest page from the server into the cached conversation
+ * Messages inside the page's time range come from the server, so edits and
+ * deletions replace stale copies; older cached messages are kept only when
+ * the page connects to them, otherwise a gap would be hidden
+ */
+export const mergeServerPage = (
+  cached: any[],
+  serverPage: any[],
+  hasMorePages: boolean
+): any[] => {
+  if (serverPage.length === 0) return hasMorePages ? cached : [];
+
+  const getTime = (message: any) =>
+    new Date(message.created_at || message.sent_at || 0).getTime();
+  const oldestServerTime = Math.min(...serverPage.map(getTime));
+  const serverIds = new Set(serverPage.map((m) => m.id || m.message_id));
+
+  const overlaps = cached.some((m) => serverIds.has(m.id || m.message_id));
+  const olderCached =
+    overlaps || !hasMorePages
+      ? cached.filter(
+          (m) =>
+            getTime(m) < oldestServerTime &&
+            !serverIds.has(m.id || m.message_id)
+        )
+      : [];
+
+  return [...olderCached, ...serverPage].sort(
+    (a, b) => getTime(a) - getTime(b)
+  );
+};
+
+/**
+ * Remove every cached conversation and queued socket frame of a user
+ * (e.g. on logout)
+ */
+export const clearUserMessageCache = async (userId: string): Promise<void> => {
+  const db = await openDatabase();
+  if (!db) return;
+
+  try {
+    const prefix = `${userId}:`;
+    const range = IDBKeyRange.bound(prefix, `${prefix}\uffff`);
+    const transaction = db.transaction(
+      [MESSAGES_STORE, CONVERSATIONS_STORE, SOCKET_QUEUE_STORE],
+      "readwrite"
+    );
+    transaction.objectStore(MESSAGES_STORE).delete(range);
+    transaction.objectStore(CONVERSATIONS_STORE).delete(range);
+    await deleteSocketQueueEntries(
+      transaction.objectStore(SOCKET_QUEUE_STORE),
+      userId
+    );
+    await transactionDone(transaction);
+    searchIndex.removeConversations(prefix);
+  } catch (error) {
+    console.warn("[MessageCache] Failed to clear user cache:", error);
+  }
+};
+
+/**
+ * Search a cached conversation on the device, newest matches first
+ * The conversation is indexed from IndexedDB on its first search
+ */
+export const searchCachedMessages = async (
+  conversationKey: string,
+  query: string
+): Promise<any[]> => {
+  if (!searchIndex.hasConversation(conversationKey)) {
+    searchIndex.setConversation(
+      conversationKey,
+      await readCachedMessages(conversationKey)
+    );
+  }
+  return searchIndex.search(query, { conversationKey });
+};
+
+// Drop the queued frames of a user, along with any left without an owner
+const deleteSocketQueueEntries = async (
+  store: IDBObjectStore,
+  userId: string
+): Promise<void> => {
+  const entries = await requestToPromise(store.getAll());
+  entries
+    .filter((entry) => !entry._userId || entry._userId === userId)
+    .forEach((entry) => store.delete(entry._queueId));
+};
+
+/**
+ * Read a user's persisted WebSocket send queue
+ * Entries are tagged with their user, so frames queued by one account are
+ * never replayed under the next
+ */
+export const readSocketQueue = async (userId: string): Promise<any[]> => {
+  const db = await openDatabase();
+  if (!db) return [];
+
+  try {
+    const transaction = db.transaction(SOCKET_QUEUE_STORE, "readonly");
+    const entries = await requestToPromise(
+      transaction.objectStore(SOCKET_QUEUE_STORE).getAll()
+    );
+    return entries
+      .filter((entry) => entry._userId === userId)
+      .map(({ _userId, ...entry }) => entry);
+  } catch (error) {
+    console.warn("[MessageCache] Failed to read socket queue:", error);
+    return [];
+  }
+};
+
+/**
+ * Replace a user's persisted WebSocket send queue
+ */
+export const writeSocketQueue = async (
+  userId: string,
+  queue: any[]
+): Promise<void> => {
+  const db = await openDatabase();
+  if (!db) return;
+
+  try {
+    const transaction = db.transaction(SOCKET_QUEUE_STORE, "readwrite");
+    const store = transaction.objectStore(SOCKET_QUEUE_STORE);
+    await deleteSocketQueueEntries(store, userId);
+    queue
+      .filter((item) => item._queueId)
+      .forEach((item) =>
+        store.put(toPlainObject({ ...item, _userId: userId }))
+      );
+    await transactionDone(transaction);
+  } catch (error) {
+    console.warn("[MessageCache] Failed to write socket queue:", error);
+  }
+};
@@ -0,0 +1,94 @@
+/**
+ * Pinned message helpers shared by private and group chats
+ * Pins are kept newest first, per conversation
+ */
+
+import { stripMarkdown } from "./markdownHelper";
+
+export interface PinnedMessage {
+  message_id: string;
+  content?: string;
+  type?: string;
+  attachment_url?: string;
+  sender_id?: string;
+  sender_name?: string;
+  pinned_by?: string;
+  pinned_by_name?: string;
+  pinned_at: string;
+}
+
+/**
+ * Build a pin entry from a message that is being pinned
+ */
+export const buildPinnedMessage = (
+  message: any,
+  senderName?: string,
+  pinnedBy?: { id: string; name?: string }
+): PinnedMessage => ({
+  message_id: message.message_id || message.id,
+  content: message.content,
+  type: message.type,
+  attachment_url:
+    message.media_url || message.attachment_url || message.attachment?.url,
+  sender_id: message.sender_id || message.sender?.id,
+  sender_name: senderName || message.sender?.name,
+  pinned_by: pinnedBy?.id,
+  pinned_by_name: pinnedBy?.name,
+  pinned_at: new Date().toISOString(),
+});
+
+/**
+ * Normalize a pin entry from API or WebSocket payloads
+ * Supports the pinned message nested under `message` or flat fields
+ */
+export const normalizePinnedMessage = (
+  raw: any
+): PinnedMessage | undefined => {
+  if (!raw) return undefined;
+
+  const message =
+    raw.message && typeof raw.message === "object" ? raw.message : raw;
+  const messageId = raw.message_id || message.message_id || message.id;
+  if (!messageId) return undefined;
+
+  return {
+    message_id: messageId,
+    content: message.content,
+    type: message.type || message.message_type,
+    attachment_url: message.attachment_url || message.media_url,
+    sender_id: message.sender_id || message.sender?.id,
+    sender_name:
+      message.sender_name || message.sender?.name || message.sender?.full_name,
+    pinned_by: raw.pinned_by || raw.pinned_by_id,
+    pinned_by_name: raw.pinned_by_name,
+    pinned_at: raw.pinned_at || raw.created_at || new Date().toISOString(),
+  };
+};
+
+/**
+ * Add or remove a pin, returning a new list sorted newest first
+ */
+export const applyPinChange = (
+  pins: PinnedMessage[] | undefined,
+  pin: PinnedMessage,
+  action: "pin" | "unpin"
+): PinnedMessage[] => {
+  const withoutPin = (pins || []).filter(
+    (p) => p.message_id !== pin.message_id
+  );
+
+  if (action === "unpin") return withoutPin;
+
+  return [pin, ...withoutPin].sort(
+    (a, b) => new Date(b.pinned_at).getTime() - new Date(a.pinned_at).getTime()
+  );
+};
+
+/**
+ * Get the text shown for a pin in banners and lists
+ */
+export const getPinnedPreviewText = (pin: PinnedMessage): string => {
+  if (pin.content) return stripMarkdown(pin.content);
+  if (pin.attachment_url) return "📎 Attachment";
+  return "Pinned message";
+};
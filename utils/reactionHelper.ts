@@ -0,0 +1,131 @@
+/**
+ * Message reaction helpers shared by private and group chats
+ * Reactions are stored flat (one entry per user and emoji) and aggregated for display
+ */
+
+export interface MessageReaction {
+  emoji: string;
+  user_id: string;
+  user_name?: string;
+  created_at?: string;
+}
+
+export interface AggregatedReaction {
+  emoji: string;
+  count: number;
+  userNames: string[];
+  reactedByCurrentUser: boolean;
+}
+
+// Emojis offered in the quick reaction picker
+export const QUICK_REACTIONS = ["👍", "❤️", "😂", "😮", "😢", "🙏"];
+
+/**
+ * Normalize reactions from API or WebSocket payloads
+ * Supports a flat list of reactions or a list grouped by emoji with users
+ */
+export const normalizeReactions = (raw: any): MessageReaction[] => {
+  if (!Array.isArray(raw)) return [];
+
+  const reactions: MessageReaction[] = [];
+
+  raw.forEach((item: any) => {
+    if (!item?.emoji) return;
+
+    // Grouped format: { emoji, users: [{ id, name }] }
+    if (Array.isArray(item.users)) {
+      item.users.forEach((user: any) => {
+        const userId =
+          typeof user === "string" ? user : user?.id || user?.user_id;
+        if (!userId) return;
+        reactions.push({
+          emoji: item.emoji,
+          user_id: userId,
+          user_name:
+            typeof user === "string" ? undefined : user.name || user.user_name,
+        });
+      });
+      return;
+    }
+
+    const userId = item.user_id || item.user?.id;
+    if (!userId) return;
+
+    reactions.push({
+      emoji: item.emoji,
+      user_id: userId,
+      user_name: item.user_name || item.user?.name,
+      created_at: item.created_at,
+    });
+  });
+
+  return reactions;
+};
+
+/**
+ * Add or remove a single reaction, returning a new list
+ * Adding is idempotent so WebSocket echoes of our own reactions are harmless
+ */
+export const applyReaction = (
+  reactions: MessageReaction[] | undefined,
+  reaction: MessageReaction,
+  action: "add" | "remove"
+): MessageReaction[] => {
+  const current = reactions || [];
+  const withoutReaction = current.filter(
+    (r) => !(r.emoji === reaction.emoji && r.user_id === reaction.user_id)
+  );
+
+  if (action === "remove") return withoutReaction;
+
+  // Keep the existing entry (and its position) if the user already reacted
+  if (withoutReaction.length !== current.length) return current;
+
+  return [...current, reaction];
+};
+
+/**
+ * Check whether a user has already reacted with the given emoji
+ */
+export const hasUserReacted = (
+  reactions: MessageReaction[] | undefined,
+  emoji: string,
+  userId?: string
+): boolean => {
+  if (!reactions || !userId) return false;
+  return reactions.some((r) => r.emoji === emoji && r.user_id === userId);
+};
+
+/**
+ * Group reactions by emoji for the reaction chips, keeping first-use order
+ */
+export const aggregateReactions = (
+  reactions: MessageReaction[] | undefined,
+  currentUserId?: string
+): AggregatedReaction[] => {
+  if (!reactions || reactions.length === 0) return [];
+
+  const grouped = new Map<string, AggregatedReaction>();
+
+  reactions.forEach((reaction) => {
+    let entry = grouped.get(reaction.emoji);
+    if (!entry) {
+      entry = {
+        emoji: reaction.emoji,
+        count: 0,
+        userNames: [],
+        reactedByCurrentUser: false,
+      };
+      grouped.set(reaction.emoji, entry);
+    }
+
+    const isCurrentUser = !!currentUserId && reaction.user_id === currentUserId;
+    entry.count++;
+    entry.userNames.push(
+      isCurrentUser ? "You" : reaction.user_name || "Unknown User"
+    );
+    if (isCurrentUser) entry.reactedByCurrentUser = true;
+  });
+
+  return Array.from(grouped.values());
+};
@@ -0,0 +1,92 @@
+/**
+ * Group read receipt helpers
+ * Every group message keeps who has seen it and when, so the chat can show
+ * "Seen by" under the latest message
+ */
+
+export interface MessageReader {
+  user_id: string;
+  user_name?: string;
+  read_at: string;
+}
+
+// A reader resolved against the group members, ready for display
+export interface SeenByEntry {
+  user_id: string;
+  name: string;
+  avatar?: string;
+  read_at: string;
+}
+
+// Avatars shown in the stack before it collapses into "+N"
+export const MAX_STACKED_READERS = 4;
+
+/**
+ * Normalize readers from API or WebSocket payloads
+ * Supports read_by as reader objects or as plain user IDs
+ */
+export const normalizeReaders = (message: any): MessageReader[] => {
+  const raw = message?.read_by || message?.readers;
+  if (!Array.isArray(raw)) return [];
+
+  const readers: MessageReader[] = [];
+  raw.forEach((item: any) => {
+    const userId =
+      typeof item === "string" ? item : item?.user_id || item?.user?.id;
+    if (!userId) return;
+
+    const details = typeof item === "string" ? {} : item;
+    readers.push({
+      user_id: userId,
+      user_name: details.user_name || details.user?.name,
+      read_at:
+        details.read_at ||
+        message.updated_at ||
+        message.created_at ||
+        new Date().toISOString(),
+    });
+  });
+
+  return applyReaders([], readers);
+};
+
+/**
+ * Add readers to a list, returning a new list
+ * A user keeps their earliest read time, so repeated receipts are harmless
+ */
+export const applyReaders = (
+  readers: MessageReader[] | undefined,
+  incoming: MessageReader[]
+): MessageReader[] => {
+  const byUser = new Map<string, MessageReader>();
+  [...(readers || []), ...incoming].forEach((reader) => {
+    const existing = byUser.get(reader.user_id);
+    if (!existing || reader.read_at < existing.read_at) {
+      byUser.set(reader.user_id, {
+        ...reader,
+        user_name: reader.user_name || existing?.user_name,
+      });
+    }
+  });
+  return Array.from(byUser.values());
+};
+
+/**
+ * Check whether a user has already seen a message
+ */
+export const hasUserRead = (
+  readers: MessageReader[] | undefined,
+  userId: string
+): boolean => !!readers?.some((reader) => reader.user_id === userId);
+
+/**
+ * Readers of a message other than the given users (usually the sender and
+ * the viewer), most recent first
+ */
+export const getOtherReaders = (
+  readers: MessageReader[] | undefined,
+  excludeUserIds: (string | undefined)[]
+): MessageReader[] =>
+  (readers || [])
+    .filter((reader) => !excludeUserIds.includes(reader.user_id))
+    .sort((a, b) => b.read_at.localeCompare(a.read_at));
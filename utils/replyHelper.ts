@@ -0,0 +1,88 @@
+/**
+ * Reply (quoted message) helpers shared by private and group chats
+ * Keeps the reply reference shape consistent between API, WebSocket and UI
+ */
+
+import { stripMarkdown } from "./markdownHelper";
+
+export interface ReplyReference {
+  message_id: string;
+  sender_id?: string;
+  sender_name?: string;
+  content?: string;
+  type?: string;
+  attachment_url?: string;
+}
+
+// Maximum length of the quoted text kept on a reply reference
+const REPLY_PREVIEW_MAX_LENGTH = 120;
+
+/**
+ * Build a reply reference from a message the user is replying to
+ */
+export const buildReplyReference = (
+  message: any,
+  senderName?: string
+): ReplyReference => {
+  const content = (message.content || "").trim();
+
+  return {
+    message_id: message.message_id || message.id,
+    sender_id: message.sender_id || message.sender?.id,
+    sender_name: senderName || message.sender?.name || "Unknown User",
+    content:
+      content.length > REPLY_PREVIEW_MAX_LENGTH
+        ? `${content.substring(0, REPLY_PREVIEW_MAX_LENGTH)}…`
+        : content,
+    type: message.type,
+    attachment_url: message.attachment?.url || message.attachment_url,
+  };
+};
+
+/**
+ * Normalize the reply reference from API or WebSocket payloads
+ * Supports a nested `reply_to` object or flat `reply_to_*` fields
+ */
+export const normalizeReplyReference = (
+  raw: any
+): ReplyReference | undefined => {
+  if (!raw) return undefined;
+
+  const nested = raw.reply_to;
+  if (nested && typeof nested === "object") {
+    const messageId = nested.message_id || nested.id;
+    if (!messageId) return undefined;
+
+    return {
+      message_id: messageId,
+      sender_id: nested.sender_id || nested.sender?.id,
+      sender_name:
+        nested.sender_name || nested.sender?.name || nested.sender?.full_name,
+      content: nested.content,
+      type: nested.type || nested.message_type,
+      attachment_url: nested.attachment_url || nested.attachment?.url,
+    };
+  }
+
+  const messageId =
+    raw.reply_to_id ||
+    raw.reply_to_message_id ||
+    (typeof nested === "string" ? nested : undefined);
+  if (!messageId) return undefined;
+
+  return {
+    message_id: messageId,
+    sender_id: raw.reply_to_sender_id,
+    sender_name: raw.reply_to_sender_name,
+    content: raw.reply_to_content,
+  };
+};
+
+/**
+ * Get the text shown inside a quoted reply preview
+ */
+export const getReplyPreviewText = (reply: ReplyReference): string => {
+  if (reply.content) return stripMarkdown(reply.content);
+  if (reply.attachment_url) return "📎 Attachment";
+  return "Original message";
+};
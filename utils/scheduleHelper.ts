@@ -0,0 +1,101 @@
+/**
+ * Scheduled message helpers
+ * Times are stored as ISO strings and edited through datetime-local inputs
+ */
+
+export interface SchedulePreset {
+  label: string;
+  date: Date;
+}
+
+// Scheduling less than a minute ahead is treated as sending now
+export const MIN_SCHEDULE_LEAD_MS = 60 * 1000;
+
+const pad = (value: number) => value.toString().padStart(2, "0");
+
+const formatTime = (date: Date) =>
+  date.toLocaleTimeString("id-ID", {
+    hour: "2-digit",
+    minute: "2-digit",
+    hour12: false,
+  });
+
+const isSameDay = (a: Date, b: Date) =>
+  a.getFullYear() === b.getFullYear() &&
+  a.getMonth() === b.getMonth() &&
+  a.getDate() === b.getDate();
+
+/**
+ * Convert a date to the local "YYYY-MM-DDTHH:mm" value of datetime-local inputs
+ */
+export const toDateTimeLocalValue = (date: Date): string =>
+  `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}` +
+  `T${pad(date.getHours())}:${pad(date.getMinutes())}`;
+
+/**
+ * Parse a datetime-local value, returning null for empty or invalid input
+ */
+export const fromDateTimeLocalValue = (value: string): Date | null => {
+  if (!value) return null;
+  const date = new Date(value);
+  return isNaN(date.getTime()) ? null : date;
+};
+
+/**
+ * Check that a chosen time is far enough in the future to be scheduled
+ */
+export const isValidScheduleTime = (date: Date | null, now = new Date()) =>
+  !!date && date.getTime() - now.getTime() >= MIN_SCHEDULE_LEAD_MS;
+
+/**
+ * Format a scheduled time as "Today 14:30", "Tomorrow 09:00" or a full date
+ */
+export const formatScheduledTime = (iso: string, now = new Date()): string => {
+  const date = new Date(iso);
+  if (isNaN(date.getTime())) return "";
+
+  const tomorrow = new Date(now);
+  tomorrow.setDate(now.getDate() + 1);
+
+  if (isSameDay(date, now)) return `Today ${formatTime(date)}`;
+  if (isSameDay(date, tomorrow)) return `Tomorrow ${formatTime(date)}`;
+
+  const day = date.toLocaleDateString("id-ID", {
+    day: "numeric",
+    month: "short",
+    year: date.getFullYear() === now.getFullYear() ? undefined : "numeric",
+  });
+  return `${day} ${formatTime(date)}`;
+};
+
+/**
+ * Quick choices offered in the schedule picker
+ */
+export const getSchedulePresets = (now = new Date()): SchedulePreset[] => {
+  const presets: SchedulePreset[] = [];
+
+  const inOneHour = new Date(now.getTime() + 60 * 60 * 1000);
+  inOneHour.setSeconds(0, 0);
+  presets.push({ label: "In 1 hour", date: inOneHour });
+
+  const tonight = new Date(now);
+  tonight.setHours(20, 0, 0, 0);
+  if (tonight.getTime() - now.getTime() > 60 * 60 * 1000) {
+    presets.push({ label: "Tonight at 20:00", date: tonight });
+  }
+
+  const tomorrowMorning = new Date(now);
+  tomorrowMorning.setDate(now.getDate() + 1);
+  tomorrowMorning.setHours(9, 0, 0, 0);
+  presets.push({ label: "Tomorrow at 09:00", date: tomorrowMorning });
+
+  // Next Monday, a week ahead when today is Monday
+  const nextMonday = new Date(now);
+  nextMonday.setDate(now.getDate() + (((8 - now.getDay()) % 7) || 7));
+  nextMonday.setHours(9, 0, 0, 0);
+  if (!isSameDay(nextMonday, tomorrowMorning)) {
+    presets.push({ label: "Monday at 09:00", date: nextMonday });
+  }
+
+  return presets;
+};
@@ -0,0 +1,155 @@
+/**
+ * Global message search helpers
+ * Normalizes search hits from every conversation and builds highlighted
+ * snippets around the matched words
+ */
+
+import { stripMarkdown } from "~/utils/markdownHelper";
+
+export interface SearchHit {
+  id: string;
+  content: string;
+  type: string;
+  created_at: string;
+  sender_id: string;
+  sender_name: string;
+  conversation_type: "private" | "group";
+  // The other user for private chats, the group for group chats
+  conversation_id: string;
+  conversation_name: string;
+  has_attachment: boolean;
+}
+
+// A search hit as returned by the API
+export interface RawSearchHit {
+  id: string;
+  content?: string;
+  type?: string;
+  message_type?: string;
+  created_at?: string;
+  sender_id: string;
+  sender_name?: string;
+  sender?: { name?: string };
+  recipient_id?: string;
+  receiver_id?: string;
+  recipient_name?: string;
+  receiver?: { name?: string };
+  group_id?: string;
+  group_name?: string;
+  group?: { name?: string };
+  conversation_type?: "private" | "group";
+  conversation_id?: string;
+  conversation_name?: string;
+  media_url?: string;
+  attachment?: unknown;
+}
+
+export interface SnippetSegment {
+  text: string;
+  match: boolean;
+}
+
+// Characters of context kept on each side of the first match
+const SNIPPET_CONTEXT = 60;
+
+/**
+ * Normalize a search hit from the API
+ * Private hits point at the other participant so the chat can be opened
+ */
+export const normalizeSearchHit = (
+  raw: RawSearchHit,
+  currentUserId?: string
+): SearchHit => {
+  const isGroup = !!raw.group_id || raw.conversation_type === "group";
+  const isOwn = !!currentUserId && raw.sender_id === currentUserId;
+  const otherUserId = isOwn
+    ? raw.recipient_id || raw.receiver_id
+    : raw.sender_id;
+
+  return {
+    id: raw.id,
+    content: raw.content || "",
+    type: raw.type || raw.message_type || "text",
+    created_at: raw.created_at || "",
+    sender_id: raw.sender_id,
+    sender_name: raw.sender_name || raw.sender?.name || "Unknown",
+    conversation_type: isGroup ? "group" : "private",
+    conversation_id:
+      (isGroup
+        ? raw.group_id || raw.conversation_id
+        : raw.conversation_id || otherUserId) || "",
+    conversation_name:
+      raw.conversation_name ||
+      raw.group_name ||
+      raw.group?.name ||
+      (isOwn ? raw.recipient_name || raw.receiver?.name : raw.sender_name) ||
+      "",
+    has_attachment: !!raw.media_url || !!raw.attachment,
+  };
+};
+
+// Split a query into distinct search terms
+export const getSearchTerms = (query: string): string[] =>
+  Array.from(
+    new Set(
+      query
+        .toLowerCase()
+        .split(/\s+/)
+        .filter((term) => term.length > 0)
+    )
+  );
+
+const escapeRegExp = (text: string): string =>
+  text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+
+/**
+ * Build a short snippet around the first matched term, split into plain
+ * and highlighted segments
+ */
+export const buildSnippet = (
+  content: string,
+  query: string
+): SnippetSegment[] => {
+  const text = stripMarkdown(content).replace(/\s+/g, " ").trim();
+  const terms = getSearchTerms(query);
+  if (!text) return [];
+  if (terms.length === 0) return [{ text, match: false }];
+
+  // Longer terms first so "chat" does not cut "chatting" short
+  const pattern = new RegExp(
+    `(${terms
+      .sort((a, b) => b.length - a.length)
+      .map(escapeRegExp)
+      .join("|")})`,
+    "gi"
+  );
+
+  const firstMatch = text.search(pattern);
+  const start =
+    firstMatch > SNIPPET_CONTEXT ? firstMatch - SNIPPET_CONTEXT : 0;
+  const end = Math.min(
+    text.length,
+    Math.max(firstMatch, 0) + SNIPPET_CONTEXT * 2
+  );
+  const excerpt =
+    (start > 0 ? "…" : "") +
+    text.slice(start, end) +
+    (end < text.length ? "…" : "");
+
+  return excerpt
+    .split(pattern)
+    .filter((part) => part.length > 0)
+    .map((part) => ({
+      text: part,
+      match: terms.includes(part.toLowerCase()),
+    }));
+};
+
+/**
+ * Link that opens the conversation of a hit scrolled to the message
+ */
+export const getSearchHitLink = (hit: SearchHit): string => {
+  const query = new URLSearchParams({ message: hit.id });
+  if (hit.conversation_type === "group") query.set("type", "group");
+  return `/chat/messages/${hit.conversation_id}?${query.toString()}`;
+};
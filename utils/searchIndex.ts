@@ -0,0 +1,209 @@
+/**
+ * Client-side inverted index over cached messages
+ * Lets conversations stored on the device be searched offline and without
+ * waiting for the server; tokens are lowercased, stripped of accents and
+ * lightly stemmed so "chatting" finds "chat" and "replies" finds "reply"
+ */
+
+export interface SearchIndex {
+  // Index a whole conversation, replacing what was indexed for it
+  setConversation: (conversationKey: string, messages: any[]) => void;
+  // Add or update messages of a conversation
+  upsertMessages: (conversationKey: string, messages: any[]) => void;
+  // Re-index a message after an edit, wherever it is cached
+  updateMessage: (messageId: string, changes: Record<string, any>) => void;
+  removeMessage: (messageId: string) => void;
+  // Drop every conversation whose key starts with the prefix
+  removeConversations: (keyPrefix: string) => void;
+  hasConversation: (conversationKey: string) => boolean;
+  // Matching messages, newest first
+  search: (
+    query: string,
+    options?: { conversationKey?: string; limit?: number }
+  ) => any[];
+}
+
+interface IndexedMessage {
+  conversationKey: string;
+  message: any;
+  terms: string[];
+}
+
+const getMessageId = (message: any): string =>
+  String(message?.id || message?.message_id || "");
+
+const getMessageTime = (message: any): number =>
+  new Date(message?.created_at || message?.sent_at || 0).getTime() || 0;
+
+/**
+ * Light suffix stripping for English plurals and verb forms
+ */
+export const stemToken = (token: string): string => {
+  if (token.length <= 3 || /\d/.test(token)) return token;
+
+  let stem = token;
+  if (stem.endsWith("ies") && stem.length > 4) {
+    stem = `${stem.slice(0, -3)}y`;
+  } else if (stem.endsWith("ing") && stem.length > 5) {
+    stem = stem.slice(0, -3);
+  } else if (stem.endsWith("ed") && stem.length > 4) {
+    stem = stem.slice(0, -2);
+  } else if (/(sh|ch|x|z|ss)es$/.test(stem)) {
+    stem = stem.slice(0, -2);
+  } else if (stem.endsWith("s") && !/(ss|us|is)$/.test(stem)) {
+    stem = stem.slice(0, -1);
+  }
+
+  // "chatting" -> "chatt" -> "chat", but "called" keeps its "ll"
+  if (/([^aeiouls])\1$/.test(stem)) return stem.slice(0, -1);
+  // "liked", "likes" and "like" all become "lik"
+  if (stem.endsWith("e") && stem.length > 3) return stem.slice(0, -1);
+  return stem;
+};
+
+/**
+ * Split text into lowercase words without accents
+ */
+export const tokenize = (text: string): string[] =>
+  (text || "")
+    .normalize("NFKD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .split(/[^\p{L}\p{N}]+/u)
+    .filter((token) => token.length > 0);
+
+// Distinct index terms of a text
+const getTerms = (text: string): string[] =>
+  Array.from(new Set(tokenize(text).map(stemToken)));
+
+// Deleted messages keep only a placeholder, so they are not searchable
+const isSearchable = (message: any): boolean =>
+  !!getMessageId(message) &&
+  !message.isDeleted &&
+  !message.is_deleted &&
+  typeof message.content === "string";
+
+/**
+ * Create an empty search index
+ */
+export const createSearchIndex = (): SearchIndex => {
+  const documents = new Map<string, IndexedMessage>();
+  const postings = new Map<string, Set<string>>();
+  const indexedConversations = new Set<string>();
+
+  const unindex = (messageId: string) => {
+    const existing = documents.get(messageId);
+    if (!existing) return;
+
+    existing.terms.forEach((term) => {
+      const ids = postings.get(term);
+      ids?.delete(messageId);
+      if (ids?.size === 0) postings.delete(term);
+    });
+    documents.delete(messageId);
+  };
+
+  const index = (conversationKey: string, message: any) => {
+    const messageId = getMessageId(message);
+    unindex(messageId);
+    if (!isSearchable(message)) return;
+
+    const terms = getTerms(message.content);
+    documents.set(messageId, { conversationKey, message, terms });
+    terms.forEach((term) => {
+      const ids = postings.get(term) || new Set<string>();
+      ids.add(messageId);
+      postings.set(term, ids);
+    });
+  };
+
+  const removeWhere = (matches: (conversationKey: string) => boolean) => {
+    Array.from(documents.entries())
+      .filter(([, doc]) => matches(doc.conversationKey))
+      .forEach(([messageId]) => unindex(messageId));
+  };
+
+  // Ids of messages containing a term, or a word starting with it
+  const lookup = (token: string, allowPrefix: boolean): Set<string> => {
+    const stem = stemToken(token);
+    if (!allowPrefix) return postings.get(stem) || new Set();
+
+    const ids = new Set<string>();
+    postings.forEach((termIds, term) => {
+      if (term.startsWith(stem) || term.startsWith(token)) {
+        termIds.forEach((id) => ids.add(id));
+      }
+    });
+    return ids;
+  };
+
+  return {
+    setConversation(conversationKey, messages) {
+      removeWhere((key) => key === conversationKey);
+      messages.forEach((message) => index(conversationKey, message));
+      indexedConversations.add(conversationKey);
+    },
+
+    upsertMessages(conversationKey, messages) {
+      messages.forEach((message) => index(conversationKey, message));
+    },
+
+    updateMessage(messageId, changes) {
+      const existing = documents.get(messageId);
+      if (existing) {
+        index(existing.conversationKey, { ...existing.message, ...changes });
+      }
+    },
+
+    removeMessage: unindex,
+
+    removeConversations(keyPrefix) {
+      removeWhere((key) => key.startsWith(keyPrefix));
+      Array.from(indexedConversations)
+        .filter((key) => key.startsWith(keyPrefix))
+        .forEach((key) => indexedConversations.delete(key));
+    },
+
+    hasConversation: (conversationKey) =>
+      indexedConversations.has(conversationKey),
+
+    search(query, options = {}) {
+      const tokens = Array.from(new Set(tokenize(query)));
+      if (tokens.length === 0) return [];
+
+      // Every word must match; the last one may still be being typed
+      let matches = Array.from(lookup(tokens[0], tokens.length === 1));
+      for (let i = 1; i < tokens.length && matches.length > 0; i++) {
+        const ids = lookup(tokens[i], i === tokens.length - 1);
+        matches = matches.filter((id) => ids.has(id));
+      }
+
+      return matches
+        .map((id) => documents.get(id)!)
+        .filter(
+          (doc) =>
+            !options.conversationKey ||
+            doc.conversationKey === options.conversationKey
+        )
+        .map((doc) => doc.message)
+        .sort((a, b) => getMessageTime(b) - getMessageTime(a))
+        .slice(0, options.limit ?? Infinity);
+    },
+  };
+};
+
+/**
+ * Merge local and server search results without duplicates, newest first
+ * The server's copy of a message wins since it may be more recent
+ */
+export const mergeSearchResults = (local: any[], server: any[]): any[] => {
+  const byId = new Map<string, any>();
+  [...local, ...server].forEach((message) => {
+    const messageId = getMessageId(message);
+    if (messageId) byId.set(messageId, message);
+  });
+
+  return Array.from(byId.values()).sort(
+    (a, b) => getMessageTime(b) - getMessageTime(a)
+  );
+};
@@ -0,0 +1,76 @@
+/**
+ * Typing indicator helpers
+ * Outgoing typing frames are throttled while the user types, and incoming
+ * typing states expire on their own in case a stop frame never arrives
+ */
+
+// At most one "typing" frame per conversation in this window
+export const TYPING_THROTTLE_MS = 3000;
+
+// Typing is considered stopped after this long without a keystroke
+export const TYPING_IDLE_MS = 4000;
+
+// A remote typing state is dropped when it is not refreshed in time
+export const TYPING_EXPIRY_MS = 6000;
+
+export interface TypingSender {
+  // Call on every keystroke
+  notifyTyping: () => void;
+  // Call when the message is sent or the conversation is left
+  stopTyping: () => void;
+}
+
+/**
+ * Create a throttled, debounced sender of typing frames for a conversation
+ * The first keystroke sends "typing" right away, later keystrokes refresh
+ * it at most once per throttle window, and "stop typing" follows once the
+ * user has been idle
+ */
+export const createTypingSender = (
+  send: (isTyping: boolean) => void
+): TypingSender => {
+  let isTyping = false;
+  let lastSentAt = 0;
+  let idleTimer: ReturnType<typeof setTimeout> | null = null;
+
+  const stopTyping = () => {
+    if (idleTimer) {
+      clearTimeout(idleTimer);
+      idleTimer = null;
+    }
+    if (!isTyping) return;
+
+    isTyping = false;
+    lastSentAt = 0;
+    send(false);
+  };
+
+  const notifyTyping = () => {
+    const now = Date.now();
+    if (!isTyping || now - lastSentAt >= TYPING_THROTTLE_MS) {
+      isTyping = true;
+      lastSentAt = now;
+      send(true);
+    }
+
+    if (idleTimer) clearTimeout(idleTimer);
+    idleTimer = setTimeout(stopTyping, TYPING_IDLE_MS);
+  };
+
+  return { notifyTyping, stopTyping };
+};
+
+/**
+ * Describe who is typing: "Alice is typing…", "Alice and Bob are typing…",
+ * "Alice, Bob and 2 others are typing…"
+ */
+export const formatTypingNames = (names: string[]): string => {
+  if (names.length === 0) return "";
+  if (names.length === 1) return `${names[0]} is typing…`;
+  if (names.length === 2) return `${names[0]} and ${names[1]} are typing…`;
+
+  const others = names.length - 2;
+  return `${names[0]}, ${names[1]} and ${others} ${
+    others === 1 ? "other" : "others"
+  } are typing…`;
+};
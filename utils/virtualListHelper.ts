@@ -0,0 +1,100 @@
+/**
+ * Virtualized message list helpers
+ * Messages and day separators are flattened into rows; only the rows near
+ * the viewport are rendered, the rest are represented by their measured
+ * (or estimated) heights
+ */
+
+export type MessageListRow<T> =
+  | { key: string; type: "separator"; label: string }
+  | { key: string; type: "message"; message: T };
+
+// Methods exposed by VirtualMessageList to the chat areas
+export interface VirtualMessageListHandle {
+  // Scroll a row into view, resolving with its element once rendered
+  scrollToRow: (
+    key: string,
+    options?: { block?: ScrollLogicalPosition; behavior?: ScrollBehavior }
+  ) => Promise<HTMLElement | null>;
+  scrollToBottom: (behavior?: ScrollBehavior) => void;
+  isNearBottom: () => boolean;
+}
+
+interface MessageDateGroup<T> {
+  dateKey: string;
+  date: string;
+  isToday?: boolean;
+  isYesterday?: boolean;
+  messages: T[];
+}
+
+/**
+ * Flatten messages grouped by day into rows, each day led by a separator
+ */
+export const toMessageRows = <T extends { id: string }>(
+  groups: MessageDateGroup<T>[]
+): MessageListRow<T>[] =>
+  groups.flatMap((group) => [
+    {
+      key: `separator-${group.dateKey}`,
+      type: "separator" as const,
+      label: group.isToday
+        ? "Today"
+        : group.isYesterday
+        ? "Yesterday"
+        : group.date,
+    },
+    ...group.messages.map((message) => ({
+      key: message.id,
+      type: "message" as const,
+      message,
+    })),
+  ]);
+
+/**
+ * Guess the height of a row before it has been rendered
+ */
+export const estimateRowSize = (row: MessageListRow<any>): number => {
+  if (row.type === "separator") return 56;
+
+  const message = row.message;
+  let size = 72;
+  if (message.attachment || message.media_url) size += 200;
+  if (message.reply_to) size += 40;
+  if (message.reactions?.length) size += 28;
+  // Roughly one extra line per 60 characters
+  size += Math.floor((message.content?.length || 0) / 60) * 20;
+  return size;
+};
+
+/**
+ * Top offset of every row, plus the total height as the last entry
+ */
+export const getRowOffsets = (sizes: number[]): number[] => {
+  const offsets = new Array(sizes.length + 1);
+  offsets[0] = 0;
+  sizes.forEach((size, index) => {
+    offsets[index + 1] = offsets[index] + size;
+  });
+  return offsets;
+};
+
+/**
+ * Index of the row at a vertical position within the list
+ */
+export const findRowAt = (offsets: number[], position: number): number => {
+  const lastRow = offsets.length - 2;
+  if (lastRow < 0) return 0;
+
+  let low = 0;
+  let high = lastRow;
+  while (low < high) {
+    const middle = Math.ceil((low + high) / 2);
+    if (offsets[middle] <= position) {
+      low = middle;
+    } else {
+      high = middle - 1;
+    }
+  }
+  return low;
+};
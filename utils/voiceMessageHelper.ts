@@ -0,0 +1,179 @@
+/**
+ * Voice message helpers
+ * Voice notes are recorded with MediaRecorder and sent as audio attachments
+ * with the message type "voice"
+ */
+
+export const VOICE_MESSAGE_TYPE = "voice";
+export const VOICE_FILE_PREFIX = "voice-message-";
+export const MAX_VOICE_DURATION_SECONDS = 5 * 60;
+export const PLAYBACK_RATES = [1, 1.5, 2];
+
+// Preferred recording formats, first supported one wins
+const RECORDING_MIME_TYPES = [
+  "audio/webm;codecs=opus",
+  "audio/ogg;codecs=opus",
+  "audio/webm",
+  "audio/mp4",
+];
+
+export interface VoiceMessageLike {
+  type?: string;
+  message_type?: string;
+  attachment?: { url?: string; name?: string } | null;
+  media_url?: string;
+}
+
+/**
+ * Pick a recording MIME type supported by this browser
+ * Returns an empty string to let MediaRecorder use its default
+ */
+export const getSupportedAudioMimeType = (): string => {
+  if (typeof MediaRecorder === "undefined") return "";
+  return (
+    RECORDING_MIME_TYPES.find((type) => MediaRecorder.isTypeSupported(type)) ||
+    ""
+  );
+};
+
+/**
+ * Check whether voice recording is available in this browser
+ */
+export const canRecordVoice = (): boolean =>
+  typeof window !== "undefined" &&
+  typeof MediaRecorder !== "undefined" &&
+  !!navigator.mediaDevices?.getUserMedia;
+
+/**
+ * Wrap a recorded blob into a File the upload endpoint accepts
+ */
+export const buildVoiceFile = (blob: Blob, mimeType: string): File => {
+  // Codec parameters are dropped so the server sees a plain audio type
+  const type = (mimeType || blob.type || "audio/webm").split(";")[0];
+  const extension = type === "audio/mp4" ? "m4a" : type.split("/")[1];
+  return new File([blob], `${VOICE_FILE_PREFIX}${Date.now()}.${extension}`, {
+    type,
+  });
+};
+
+/**
+ * Check whether a message is a voice note rather than a regular attachment
+ */
+export const isVoiceMessage = (message: VoiceMessageLike): boolean => {
+  if (
+    message.type === VOICE_MESSAGE_TYPE ||
+    message.message_type === VOICE_MESSAGE_TYPE
+  ) {
+    return !!(message.attachment?.url || message.media_url);
+  }
+
+  const source = message.attachment?.name || message.attachment?.url || "";
+  return source.includes(VOICE_FILE_PREFIX);
+};
+
+/**
+ * Format a duration in seconds as m:ss
+ */
+export const formatDuration = (seconds: number): string => {
+  const total = Number.isFinite(seconds) ? Math.max(0, Math.floor(seconds)) : 0;
+  const minutes = Math.floor(total / 60);
+  const rest = total % 60;
+  return `${minutes}:${rest.toString().padStart(2, "0")}`;
+};
+
+/**
+ * Text sent along with a voice note, shown in previews and notifications
+ */
+export const getVoiceMessageLabel = (seconds: number): string =>
+  `🎤 Voice message (${formatDuration(seconds)})`;
+
+/**
+ * Reduce decoded audio to normalized peak heights between 0 and 1
+ */
+export const computeWaveformPeaks = (
+  buffer: AudioBuffer,
+  bars: number
+): number[] => {
+  const samples = buffer.getChannelData(0);
+  const blockSize = Math.max(1, Math.floor(samples.length / bars));
+  const peaks: number[] = [];
+
+  for (let bar = 0; bar < bars; bar++) {
+    let peak = 0;
+    const start = bar * blockSize;
+    const end = Math.min(start + blockSize, samples.length);
+    for (let i = start; i < end; i++) {
+      const value = Math.abs(samples[i]);
+      if (value > peak) peak = value;
+    }
+    peaks.push(peak);
+  }
+
+  const max = Math.max(...peaks, 0.01);
+  // Quiet bars keep a minimum height so the waveform stays visible
+  return peaks.map((peak) => Math.max(0.08, peak / max));
+};
+
+export interface VoiceWaveform {
+  peaks: number[];
+  duration: number;
+}
+
+// Decoded waveforms, shared by every player showing the same voice note
+const waveformRequests = new Map<string, Promise<VoiceWaveform | null>>();
+
+/**
+ * Download and decode a voice note once per page load
+ * The decoded duration also covers recordings whose metadata lacks one
+ */
+export const loadVoiceWaveform = (
+  src: string,
+  bars: number
+): Promise<VoiceWaveform | null> => {
+  const key = `${bars}:${src}`;
+  const existing = waveformRequests.get(key);
+  if (existing) return existing;
+
+  const request = (async () => {
+    const AudioContextClass =
+      window.AudioContext || (window as any).webkitAudioContext;
+    if (!AudioContextClass) return null;
+
+    const response = await fetch(src);
+    if (!response.ok) throw new Error(`HTTP ${response.status}`);
+    const data = await response.arrayBuffer();
+
+    const context: AudioContext = new AudioContextClass();
+    try {
+      const buffer = await context.decodeAudioData(data);
+      return {
+        peaks: computeWaveformPeaks(buffer, bars),
+        duration: buffer.duration,
+      };
+    } finally {
+      context.close().catch(() => {});
+    }
+  })().catch((error) => {
+    console.warn(`[VoiceMessage] Failed to decode ${src}:`, error);
+    return null;
+  });
+
+  waveformRequests.set(key, request);
+  return request;
+};
+
+/**
+ * Read the current input level (0 to 1) from an analyser node
+ */
+export const getAnalyserLevel = (analyser: AnalyserNode): number => {
+  const data = new Uint8Array(analyser.fftSize);
+  analyser.getByteTimeDomainData(data);
+
+  let sum = 0;
+  for (const value of data) {
+    const sample = (value - 128) / 128;
+    sum += sample * sample;
+  }
+  // RMS of speech is small, so it is scaled up for a lively waveform
+  return Math.min(1, Math.sqrt(sum / data.length) * 4);
+};